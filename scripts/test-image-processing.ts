@@ -1,6 +1,8 @@
 import { ImageService } from '../src/services/image';
 import { NostrService } from '../src/services/nostr';
 import { validatePubkey } from '../src/utils/validation';
+import { getVariantR2Key } from '../src/utils/cache';
+import { sha256Hex } from '../src/utils/hash';
 
 // WebSocket polyfill for Node.js
 import WebSocket from 'ws';
@@ -51,15 +53,15 @@ async function testImageProcessing(input: string) {
   try {
     // Step 1: Fetch the image
     console.log('📥 Fetching image...');
-    const buffer = await imageService.fetchImage(url);
-    console.log(`✅ Image fetched successfully (${buffer.byteLength} bytes)`);
+    const { buffer, strategy } = await imageService.fetchImage(url);
+    console.log(`✅ Image fetched successfully via ${strategy} (${buffer.byteLength} bytes)`);
 
     // Step 2: Validate the image
     console.log('\n🔎 Validating image format...');
     const detectedType = await imageService.validateImage(buffer);
     console.log(`✅ Detected type: ${detectedType}`);
 
-    // Step 3: Process the image (for now just returns original)
+    // Step 3: Crop, resize and convert the image
     console.log('\n⚙️  Processing image...');
     const processed = await imageService.processImage(buffer, {
       width: 400,
@@ -76,7 +78,7 @@ async function testImageProcessing(input: string) {
     );
 
     // Test R2 key generation
-    const r2Key = imageService.generateR2Key(pubkey || 'test-pubkey-123', 400, 'webp');
+    const r2Key = getVariantR2Key(await sha256Hex(buffer), 400, 400, 'webp');
     console.log(`\n🗄️  R2 Key: ${r2Key}`);
 
     // Test headers generation
@@ -0,0 +1,40 @@
+import { Env } from '../types';
+import {
+  FetchJob,
+  VariantResult,
+  coalesce,
+  runFetchJob,
+  serializeError,
+  serializeResult,
+} from '../services/coalescer';
+import { createLogger } from '../utils/logger';
+
+// Durable Object keyed by pubkey. All cache misses for a profile are routed
+// here, so concurrent requests from any isolate share a single upstream fetch.
+export class FetchCoordinator implements DurableObject {
+  private inFlight = new Map<string, Promise<VariantResult>>();
+
+  constructor(
+    private state: DurableObjectState,
+    private env: Env,
+  ) {}
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    const job = (await request.json()) as FetchJob;
+    const logger = createLogger(this.env, request.headers.get('X-Request-Id') || null);
+    logger.set({ pubkey: job.variant.pubkey });
+
+    try {
+      const result = await coalesce(this.inFlight, job.variant.cacheKey, () =>
+        runFetchJob(this.env, job, logger),
+      );
+      return serializeResult(result);
+    } catch (error) {
+      return serializeError(error);
+    }
+  }
+}
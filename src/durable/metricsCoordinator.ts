@@ -0,0 +1,41 @@
+import { MetricsSnapshot, emptySnapshot, mergeMetrics } from '../utils/metrics';
+
+// How long totals may stay in memory only; flushes arriving meanwhile share one write
+const PERSIST_INTERVAL_MS = 30000;
+
+// Single global Durable Object that totals the metrics flushed by every isolate.
+// Totals are persisted by an alarm so they survive restarts and deploys, losing
+// at most the last interval's flushes if the object is evicted in between.
+export class MetricsCoordinator implements DurableObject {
+  private totals: MetricsSnapshot | null = null;
+  private persistScheduled = false;
+
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    if (!this.totals) {
+      this.totals = (await this.state.storage.get<MetricsSnapshot>('totals')) || emptySnapshot();
+    }
+
+    if (request.method === 'POST') {
+      mergeMetrics(this.totals, (await request.json()) as MetricsSnapshot);
+      if (!this.persistScheduled) {
+        this.persistScheduled = true;
+        await this.state.storage.setAlarm(Date.now() + PERSIST_INTERVAL_MS);
+      }
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response(JSON.stringify(this.totals), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  async alarm(): Promise<void> {
+    this.persistScheduled = false;
+    // Nothing new if the object was evicted since the alarm was set
+    if (this.totals) {
+      await this.state.storage.put('totals', this.totals);
+    }
+  }
+}
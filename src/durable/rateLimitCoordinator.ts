@@ -0,0 +1,37 @@
+import { RateLimitOptions, RateLimitState, consumeRateLimit } from '../utils/rateLimit';
+
+// Durable Object keyed by rate limit identifier (route plus IP or API key).
+// State is persisted so limits survive isolate restarts and apply globally.
+export class RateLimitCoordinator implements DurableObject {
+  private rateLimitState: RateLimitState | null = null;
+
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    const options = (await request.json()) as RateLimitOptions;
+
+    if (!this.rateLimitState) {
+      this.rateLimitState = (await this.state.storage.get<RateLimitState>('state')) || {};
+    }
+
+    const { state, decision } = consumeRateLimit(this.rateLimitState, options);
+    this.rateLimitState = state;
+    await this.state.storage.put('state', state);
+
+    // Drop idle identifiers once their window has passed
+    await this.state.storage.setAlarm(decision.resetAt + options.windowMs);
+
+    return new Response(JSON.stringify(decision), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  async alarm(): Promise<void> {
+    this.rateLimitState = null;
+    await this.state.storage.deleteAll();
+  }
+}
@@ -0,0 +1,220 @@
+import { CachedImage, Env, ProfileMetadata } from '../types';
+import { StorageService } from '../services/storage';
+import { createRelayPool } from '../services/nostr';
+import { refreshVariants } from '../services/profileQueue';
+import { getAdminIdentity } from '../utils/auth';
+import { getAllCacheKeys, getOriginalR2Key } from '../utils/cache';
+import { getCorsHeaders } from '../utils/cors';
+import { purgeEdgeCache } from '../utils/edgeCache';
+import { createLogger, errorFields, Logger } from '../utils/logger';
+
+const PROFILE_ROUTE = /^\/admin\/profiles\/([0-9a-f]{64})$/;
+const REFRESH_ROUTE = /^\/admin\/profiles\/([0-9a-f]{64})\/refresh$/;
+
+const DEFAULT_FAILURE_LIMIT = 50;
+const MAX_FAILURE_LIMIT = 500;
+// Stay well inside the Worker's subrequest limit, 1000 keys per page
+const MAX_LIST_PAGES = 100;
+
+export interface FailureEntry {
+  pubkey: string;
+  failureCount: number;
+  lastFailure: number | null;
+}
+
+function jsonResponse(request: Request, env: Env, body: unknown, status: number): Response {
+  const headers = new Headers(getCorsHeaders(request, env));
+  headers.set('Content-Type', 'application/json');
+  headers.set('Cache-Control', 'no-store');
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+function allVariants(metadata: ProfileMetadata): [string, CachedImage][] {
+  return [...Object.entries(metadata.sizes), ...Object.entries(metadata.banners || {})];
+}
+
+async function inspectProfile(
+  request: Request,
+  env: Env,
+  pubkey: string,
+  logger: Logger,
+): Promise<Response> {
+  const storage = new StorageService(env, logger);
+  const metadata = await storage.getProfileMetadata(pubkey);
+  if (!metadata) {
+    return jsonResponse(request, env, { error: 'Profile not cached' }, 404);
+  }
+
+  const keys = new Set<string>();
+  for (const [, image] of allVariants(metadata)) {
+    keys.add(image.key);
+    if (image.hash) keys.add(getOriginalR2Key(image.hash));
+  }
+
+  const objects = await Promise.all(
+    [...keys].map(async (key) => {
+      const object = await storage.headImage(key);
+      return {
+        key,
+        exists: !!object,
+        size: object?.size ?? null,
+        uploaded: object?.uploaded.toISOString() ?? null,
+        contentType: object?.httpMetadata?.contentType ?? null,
+        customMetadata: object?.customMetadata ?? null,
+      };
+    }),
+  );
+
+  return jsonResponse(request, env, { metadata, objects }, 200);
+}
+
+// Forgets the profile and drops its edge-cached responses. Originals and
+// rendered variants are both content-addressed and may be shared with other
+// profiles, so the blobs are left to the daily garbage collection.
+async function purgeProfile(
+  request: Request,
+  env: Env,
+  pubkey: string,
+  logger: Logger,
+): Promise<Response> {
+  const storage = new StorageService(env, logger);
+  const metadata = await storage.getProfileMetadata(pubkey);
+  if (!metadata) {
+    return jsonResponse(request, env, { error: 'Profile not cached' }, 404);
+  }
+
+  const cacheKeys = getAllCacheKeys(metadata);
+  await storage.deleteProfileMetadata(pubkey);
+  await purgeEdgeCache(env, request.url, cacheKeys, logger);
+
+  return jsonResponse(request, env, { pubkey, purged: cacheKeys }, 200);
+}
+
+// Clears the failure backoff and renders every cached variant again from the
+// relay's current profile
+async function refreshProfile(
+  request: Request,
+  env: Env,
+  pubkey: string,
+  logger: Logger,
+): Promise<Response> {
+  const storage = new StorageService(env, logger);
+  const metadata = await storage.getProfileMetadata(pubkey);
+
+  if (metadata) {
+    metadata.failureCount = 0;
+    delete metadata.lastFailure;
+    delete metadata.lastError;
+    await storage.putProfileMetadata(metadata);
+  }
+
+  const profile = await createRelayPool(env, logger).fetchProfile(
+    pubkey,
+    metadata?.profileRelay ? [metadata.profileRelay] : [],
+  );
+  if (!profile) {
+    return jsonResponse(request, env, { error: 'Profile not found on relays' }, 404);
+  }
+
+  const errors = await refreshVariants(env, pubkey, profile, metadata, logger);
+  const refreshed = await storage.getProfileMetadata(pubkey);
+  await purgeEdgeCache(
+    env,
+    request.url,
+    [...getAllCacheKeys(metadata), ...getAllCacheKeys(refreshed)],
+    logger,
+  );
+
+  return jsonResponse(
+    request,
+    env,
+    { metadata: refreshed, errors },
+    Object.keys(errors).length > 0 ? 502 : 200,
+  );
+}
+
+// Profiles with the most consecutive failures, read from KV key metadata so
+// no values have to be fetched
+export async function listFailures(
+  env: Env,
+  limit: number,
+): Promise<{
+  failures: FailureEntry[];
+  truncated: boolean;
+}> {
+  const failures: FailureEntry[] = [];
+  let cursor: string | undefined;
+  let pages = 0;
+
+  do {
+    const list = await env.PROFILE_KV.list<{ failureCount?: number; lastFailure?: number }>({
+      prefix: 'profile:',
+      cursor,
+    });
+
+    for (const key of list.keys) {
+      const failureCount = key.metadata?.failureCount || 0;
+      if (failureCount > 0) {
+        failures.push({
+          pubkey: key.name.slice('profile:'.length),
+          failureCount,
+          lastFailure: key.metadata?.lastFailure ?? null,
+        });
+      }
+    }
+
+    cursor = list.list_complete ? undefined : list.cursor;
+  } while (cursor && ++pages < MAX_LIST_PAGES);
+
+  failures.sort((a, b) => b.failureCount - a.failureCount);
+  return { failures: failures.slice(0, limit), truncated: !!cursor };
+}
+
+export async function handleAdmin(
+  request: Request,
+  env: Env,
+  url: URL,
+  logger: Logger = createLogger(env),
+): Promise<Response> {
+  const admin = await getAdminIdentity(request, env);
+  if (!admin) {
+    const response = jsonResponse(request, env, { error: 'Unauthorized' }, 401);
+    response.headers.set('WWW-Authenticate', 'Bearer, Nostr');
+    return response;
+  }
+
+  try {
+    const profileMatch = url.pathname.match(PROFILE_ROUTE);
+    if (profileMatch) logger.set({ pubkey: profileMatch[1] });
+    if (profileMatch && request.method === 'GET') {
+      return await inspectProfile(request, env, profileMatch[1], logger);
+    }
+    if (profileMatch && request.method === 'DELETE') {
+      logger.info('Admin purging profile', { admin });
+      return await purgeProfile(request, env, profileMatch[1], logger);
+    }
+
+    const refreshMatch = url.pathname.match(REFRESH_ROUTE);
+    if (refreshMatch && request.method === 'POST') {
+      logger.set({ pubkey: refreshMatch[1] });
+      logger.info('Admin refreshing profile', { admin });
+      return await refreshProfile(request, env, refreshMatch[1], logger);
+    }
+
+    if (url.pathname === '/admin/failures' && request.method === 'GET') {
+      const limit = parseInt(url.searchParams.get('limit') || '') || DEFAULT_FAILURE_LIMIT;
+      const result = await listFailures(env, Math.min(Math.max(limit, 1), MAX_FAILURE_LIMIT));
+      return jsonResponse(request, env, result, 200);
+    }
+
+    return jsonResponse(request, env, { error: 'Not found' }, 404);
+  } catch (error) {
+    logger.error('Error handling admin request', errorFields(error));
+    return jsonResponse(
+      request,
+      env,
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      500,
+    );
+  }
+}
@@ -1,42 +1,275 @@
-import { Env, ProfileNotFoundError, ImageFetchError } from '../types';
-import { NostrService } from '../services/nostr';
-import { ImageService } from '../services/image';
+import {
+  Env,
+  ProfileNotFoundError,
+  ImageFetchError,
+  ImageLimitError,
+  ValidationError,
+} from '../types';
 import { StorageService } from '../services/storage';
+import { AvatarGenerator } from '../services/avatarGenerator';
+import { Nip05Service } from '../services/nip05';
+import { FetchCoalescer } from '../services/coalescer';
+import { createRelayPool } from '../services/nostr';
 import { getCorsHeaders } from '../utils/cors';
-import { getCacheHeaders, getCacheKey, shouldRevalidate } from '../utils/cache';
-import { parseAvatarRequest, isValidImageUrl } from '../utils/validation';
-import type { ProfileMetadata } from '../types';
+import {
+  getAllCacheKeys,
+  getCacheHeaders,
+  getCacheKey,
+  getBannerCacheKey,
+  getCachedVariants,
+  getRetryAfter,
+  shouldRevalidate,
+} from '../utils/cache';
+import { fromFailureRecord } from '../utils/errors';
+import { parseAvatarRequest, parseBannerRequest, isNip05Identifier } from '../utils/validation';
+import { getContentRange, isNotModified, parseRange } from '../utils/conditional';
+import { matchEdgeCache, purgeEdgeCache, putEdgeCache } from '../utils/edgeCache';
+import { createLogger, errorFields, Logger } from '../utils/logger';
+import { getUrlPolicy } from '../utils/urlPolicy';
+import type { AvatarRequest, ImageVariant, ProfileImageKind, ProfileMetadata } from '../types';
+
+// Generated avatars are cached briefly so a newly published picture shows up soon
+const FALLBACK_CACHE_DURATION = 3600;
+
+// Variants being refreshed by this isolate, so a burst of requests for a
+// stale image starts a single background refresh
+const revalidating = new Set<string>();
+
+// Checks the relay for a newer profile and only downloads the image again if
+// the URL or the event changed. Failures leave the stale copy in place.
+async function revalidateVariant(
+  env: Env,
+  origin: string,
+  metadata: ProfileMetadata,
+  variant: ImageVariant,
+  relayHints: string[],
+  logger: Logger,
+): Promise<void> {
+  // Don't check the relay again while the last attempt is still backing off
+  if (revalidating.has(variant.cacheKey) || getRetryAfter(metadata, variant.kind) > 0) return;
+  revalidating.add(variant.cacheKey);
+
+  const storage = new StorageService(env, logger);
+  try {
+    const relayPool = createRelayPool(env, logger);
+    const profile = await relayPool.fetchProfile(variant.pubkey, relayHints);
+    if (!profile) {
+      // Relay errors surface as a missing profile; backing off keeps an outage
+      // from sending every request for a stale image to every relay
+      await storage.recordFailure(
+        variant.pubkey,
+        new ProfileNotFoundError(variant.pubkey),
+        variant.kind,
+      );
+      return;
+    }
+
+    const sourceUrl = variant.kind === 'banner' ? profile.banner : profile.picture;
+    const knownUrl = variant.kind === 'banner' ? metadata.bannerUrl : metadata.originalUrl;
+
+    // The edge copy still carries the old freshness window or image
+    let cacheKeys = [variant.cacheKey];
+    if (sourceUrl === knownUrl && profile.created_at * 1000 <= metadata.profileUpdatedAt) {
+      // Nothing changed, start a new freshness window
+      const latest = (await storage.getProfileMetadata(variant.pubkey)) || metadata;
+      latest.fetchedAt = Date.now();
+      await storage.putProfileMetadata(latest);
+    } else {
+      await new FetchCoalescer(env, logger).fetchVariant({ variant, profile, refreshSource: true });
+      // A new URL drops the profile's other variants, so their copies go too
+      const refreshed = await storage.getProfileMetadata(variant.pubkey);
+      cacheKeys = [...cacheKeys, ...getAllCacheKeys(metadata), ...getAllCacheKeys(refreshed)];
+    }
+    await purgeEdgeCache(env, origin, cacheKeys, logger);
+    logger.info('Revalidated stale image', { cacheKey: variant.cacheKey });
+  } catch (error) {
+    // Failed fetch jobs record themselves
+    logger.warn('Background refresh failed', { cacheKey: variant.cacheKey, ...errorFields(error) });
+  } finally {
+    revalidating.delete(variant.cacheKey);
+  }
+}
 
 async function serveCachedImage(
   request: Request,
   env: Env,
+  ctx: ExecutionContext,
   metadata: ProfileMetadata,
-  cacheKey: string,
+  variant: ImageVariant,
+  relayHints: string[],
   storage: StorageService,
+  logger: Logger,
 ): Promise<Response | null> {
-  const imageMetadata = metadata.sizes[cacheKey];
+  const imageMetadata = getCachedVariants(metadata, variant.kind)[variant.cacheKey];
   if (!imageMetadata) return null;
 
   const maxAge = parseInt(env.IMAGE_CACHE_DURATION);
-  if (shouldRevalidate(metadata, maxAge)) return null;
+  const stale = shouldRevalidate(metadata, maxAge);
+
+  const { key: imageKey, etag } = imageMetadata;
+  const headers = buildImageHeaders(request, env, {
+    contentType: imageMetadata.contentType,
+    etag,
+    lastModified: new Date(imageMetadata.lastModified).toUTCString(),
+    cacheHeaders: getCacheHeaders(true, maxAge),
+  });
+
+  // Serve the stale copy right away and refresh it after the response
+  if (stale) {
+    headers.set('X-Cache', 'STALE');
+    ctx.waitUntil(revalidateVariant(env, request.url, metadata, variant, relayHints, logger));
+  }
+  logger.set({ cache: stale ? 'stale' : 'hit' });
+
+  // Revalidations are answered from KV metadata without touching R2
+  if (isNotModified(request, etag, imageMetadata.lastModified)) {
+    return notModifiedResponse(headers);
+  }
+
+  // HEAD and Range requests only need the object size up front
+  if (request.method === 'HEAD' || request.headers.has('Range')) {
+    const object = await storage.headImage(imageKey);
+    if (!object) return null;
+
+    if (request.method === 'HEAD') {
+      headers.set('Content-Length', object.size.toString());
+      return new Response(null, { status: 200, headers });
+    }
+
+    const range = parseRange(request, object.size, etag);
+    if (range === 'unsatisfiable') {
+      return rangeNotSatisfiableResponse(headers, object.size);
+    }
+
+    if (range) {
+      const image = await storage.getImage(imageKey, { range });
+      if (!image) return null;
+
+      headers.set('Content-Range', getContentRange(range, object.size));
+      headers.set('Content-Length', range.length.toString());
+      return new Response(image.body, { status: 206, headers });
+    }
+  }
 
-  const imageKey = imageMetadata.key;
   const image = await storage.getImage(imageKey);
   if (!image) return null;
 
+  headers.set('Content-Length', image.size.toString());
+  const response = new Response(image.body, {
+    status: 200,
+    headers,
+  });
+
+  // Stale copies are purged once revalidated, so only fresh ones go to the edge
+  if (!stale) {
+    ctx.waitUntil(
+      putEdgeCache(
+        env,
+        request,
+        variant,
+        {
+          body: response.clone().body,
+          contentType: imageMetadata.contentType,
+          etag,
+          lastModified: imageMetadata.lastModified,
+          fetchedAt: metadata.fetchedAt,
+        },
+        logger,
+      ),
+    );
+  }
+
+  return response;
+}
+
+// Answers from the data center's cache without reading KV or R2. Stale
+// entries are served while the profile is checked, as for R2 hits.
+async function serveEdgeCachedImage(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  variant: ImageVariant,
+  relayHints: string[],
+  logger: Logger,
+): Promise<Response | null> {
+  const entry = await matchEdgeCache(env, request, variant, logger);
+  if (!entry) return null;
+
+  const maxAge = parseInt(env.IMAGE_CACHE_DURATION);
   const headers = buildImageHeaders(request, env, {
-    contentType: imageMetadata.contentType,
-    etag: imageMetadata.etag,
-    lastModified: new Date(imageMetadata.lastModified).toUTCString(),
+    contentType: entry.contentType,
+    etag: entry.etag,
+    lastModified: new Date(entry.lastModified).toUTCString(),
     cacheHeaders: getCacheHeaders(true, maxAge),
   });
+  headers.set('X-Edge-Cache', 'HIT');
+
+  const stale = shouldRevalidate(entry, maxAge);
+  if (stale) {
+    headers.set('X-Cache', 'STALE');
+    ctx.waitUntil(
+      (async () => {
+        const metadata = await new StorageService(env, logger).getProfileMetadata(variant.pubkey);
+        if (metadata) {
+          await revalidateVariant(env, request.url, metadata, variant, relayHints, logger);
+        }
+      })(),
+    );
+  }
+  logger.set({ cache: stale ? 'edge-stale' : 'edge-hit' });
+
+  return serveImageBody(request, headers, entry.body, entry.etag, entry.lastModified);
+}
+
+// Conditional, HEAD and Range handling for images generated or fetched in this request
+function serveImageBody(
+  request: Request,
+  headers: Headers,
+  body: ArrayBuffer | string,
+  etag: string,
+  lastModified: number,
+): Response {
+  if (isNotModified(request, etag, lastModified)) {
+    return notModifiedResponse(headers);
+  }
+
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : new Uint8Array(body);
+  headers.set('Content-Length', bytes.byteLength.toString());
+
+  if (request.method === 'HEAD') {
+    return new Response(null, { status: 200, headers });
+  }
+
+  const range = parseRange(request, bytes.byteLength, etag);
+  if (range === 'unsatisfiable') {
+    return rangeNotSatisfiableResponse(headers, bytes.byteLength);
+  }
+
+  if (range) {
+    headers.set('Content-Range', getContentRange(range, bytes.byteLength));
+    headers.set('Content-Length', range.length.toString());
+    return new Response(bytes.slice(range.offset, range.offset + range.length), {
+      status: 206,
+      headers,
+    });
+  }
 
-  return new Response(image.body, {
+  return new Response(bytes, {
     status: 200,
     headers,
   });
 }
 
+function notModifiedResponse(headers: Headers): Response {
+  headers.delete('Content-Type');
+  return new Response(null, { status: 304, headers });
+}
+
+function rangeNotSatisfiableResponse(headers: Headers, size: number): Response {
+  headers.set('Content-Range', `bytes */${size}`);
+  return new Response(null, { status: 416, headers });
+}
+
 function buildImageHeaders(
   request: Request,
   env: Env,
@@ -51,6 +284,7 @@ function buildImageHeaders(
   headers.set('Content-Type', options.contentType);
   headers.set('ETag', options.etag);
   headers.set('Last-Modified', options.lastModified);
+  headers.set('Accept-Ranges', 'bytes');
 
   options.cacheHeaders.forEach((value, key) => headers.set(key, value));
 
@@ -60,16 +294,55 @@ function buildImageHeaders(
   return headers;
 }
 
+async function serveFallbackAvatar(
+  request: Request,
+  env: Env,
+  avatarRequest: AvatarRequest,
+): Promise<Response> {
+  const generator = new AvatarGenerator();
+  const avatar = await generator.generate(
+    avatarRequest.pubkey,
+    avatarRequest.size || 400,
+    avatarRequest.format,
+  );
+
+  const lastModified = Date.now();
+  const headers = buildImageHeaders(request, env, {
+    contentType: avatar.contentType,
+    etag: avatar.etag,
+    lastModified: new Date(lastModified).toUTCString(),
+    cacheHeaders: getCacheHeaders(false, FALLBACK_CACHE_DURATION),
+  });
+  headers.set('X-Avatar-Fallback', 'true');
+
+  return serveImageBody(request, headers, avatar.body, avatar.etag, lastModified);
+}
+
+// Failures are recorded by the fetch job that hit them; retryAfter is set
+// when the error is replayed from the backoff window.
 async function handleErrorResponse(
   request: Request,
   env: Env,
   error: unknown,
-  pubkey: string,
+  avatarRequest?: AvatarRequest,
+  retryAfter?: number,
 ): Promise<Response> {
   const headers = new Headers(getCorsHeaders(request, env));
   headers.set('Content-Type', 'application/json');
 
+  if (retryAfter !== undefined) {
+    headers.set('Retry-After', retryAfter.toString());
+  }
+
+  if (error instanceof ValidationError) {
+    return new Response(JSON.stringify({ error: error.message }), { status: 400, headers });
+  }
+
   if (error instanceof ProfileNotFoundError) {
+    if (avatarRequest?.fallback) {
+      return serveFallbackAvatar(request, env, avatarRequest);
+    }
+
     return new Response(JSON.stringify({ error: 'Profile not found', pubkey: error.pubkey }), {
       status: 404,
       headers,
@@ -77,8 +350,10 @@ async function handleErrorResponse(
   }
 
   if (error instanceof ImageFetchError) {
-    const storage = new StorageService(env);
-    await storage.recordFailure(pubkey, error.message);
+    // Covers invalid picture URLs as well as failed downloads
+    if (avatarRequest?.fallback) {
+      return serveFallbackAvatar(request, env, avatarRequest);
+    }
 
     if (error.statusCode === 403 && error.message.includes('browser verification')) {
       return new Response(
@@ -99,6 +374,8 @@ async function handleErrorResponse(
         error: error.message,
         statusCode: error.statusCode,
         originalUrl: error.originalUrl,
+        // Tells limit violations from corrupt images, both 422
+        code: error instanceof ImageLimitError ? error.code : undefined,
       }),
       { status: error.statusCode, headers },
     );
@@ -117,116 +394,150 @@ async function handleErrorResponse(
 async function fetchAndProcessNewImage(
   request: Request,
   env: Env,
-  pubkey: string,
-  size: number,
-  format: 'webp' | 'jpeg' | 'png' | undefined,
-  cacheKey: string,
-  metadata: ProfileMetadata | null,
-  storage: StorageService,
-  imageService: ImageService,
+  ctx: ExecutionContext,
+  variant: ImageVariant,
+  relayHints: string[],
+  logger: Logger,
 ): Promise<Response> {
-  const nostrService = new NostrService(env.RELAY_URL);
-
-  try {
-    await nostrService.connect();
-    const profile = await nostrService.fetchProfile(pubkey);
+  logger.set({ cache: 'miss' });
+  const coalescer = new FetchCoalescer(env, logger);
+  const result = await coalescer.fetchVariant({ variant, relayHints });
 
-    if (!profile || !profile.picture) {
-      throw new ProfileNotFoundError(pubkey);
-    }
-
-    if (!isValidImageUrl(profile.picture)) {
-      throw new ImageFetchError('Invalid profile picture URL', 400, profile.picture);
-    }
-
-    const imageBuffer = await imageService.fetchImage(profile.picture);
-    const processedImage = await imageService.processImage(imageBuffer, {
-      width: size,
-      height: size,
-      format: format,
-    });
-
-    const r2Key = imageService.generateR2Key(pubkey, size, format);
-    const etag = `"${Date.now()}-${processedImage.size}"`;
-
-    await storage.putImage(r2Key, processedImage.buffer, {
-      contentType: processedImage.contentType,
-      etag,
-    });
+  ctx.waitUntil(
+    putEdgeCache(
+      env,
+      request,
+      variant,
+      {
+        // A copy, the response below still needs the body
+        body: result.body.slice(0),
+        contentType: result.contentType,
+        etag: result.etag,
+        lastModified: result.lastModified,
+        fetchedAt: Date.now(),
+      },
+      logger,
+    ),
+  );
 
-    const newMetadata = metadata || {
-      pubkey,
-      originalUrl: profile.picture,
-      sizes: {},
-      fetchedAt: Date.now(),
-      profileUpdatedAt: profile.created_at * 1000,
-    };
-
-    newMetadata.sizes[cacheKey] = {
-      key: r2Key,
-      contentType: processedImage.contentType,
-      etag,
-      lastModified: Date.now(),
-    };
-
-    newMetadata.fetchedAt = Date.now();
-    newMetadata.failureCount = 0;
-
-    await storage.putProfileMetadata(newMetadata);
-
-    const headers = buildImageHeaders(request, env, {
-      contentType: processedImage.contentType,
-      etag,
-      lastModified: new Date().toUTCString(),
-      cacheHeaders: getCacheHeaders(false, parseInt(env.IMAGE_CACHE_DURATION)),
-    });
+  const headers = buildImageHeaders(request, env, {
+    contentType: result.contentType,
+    etag: result.etag,
+    lastModified: new Date(result.lastModified).toUTCString(),
+    cacheHeaders: getCacheHeaders(false, parseInt(env.IMAGE_CACHE_DURATION)),
+  });
 
-    return new Response(processedImage.buffer, {
-      status: 200,
-      headers,
-    });
-  } finally {
-    nostrService.disconnect();
-  }
+  return serveImageBody(request, headers, result.body, result.etag, result.lastModified);
 }
 
-export async function handleAvatar(
+// Shared by /avatar and /banner: resolve the identifier, serve from R2 when
+// cached, otherwise fetch from the relay and origin.
+export async function handleProfileImage(
   request: Request,
   env: Env,
-  params: { pubkey: string },
+  ctx: ExecutionContext,
+  params: { identifier: string },
+  kind: ProfileImageKind,
+  logger: Logger = createLogger(env),
 ): Promise<Response> {
+  let avatarRequest: AvatarRequest | undefined;
+
   try {
-    const avatarRequest = parseAvatarRequest(request, params.pubkey);
-    const { pubkey, size, format } = avatarRequest;
+    const storage = new StorageService(env, logger);
+
+    // NIP-05 handles are served as aliases of the resolved hex pubkey
+    let identifier = params.identifier;
+    let nip05Relays: string[] = [];
+    if (isNip05Identifier(identifier)) {
+      const nip05Service = new Nip05Service(storage, getUrlPolicy(env), logger);
+      const record = await nip05Service.resolve(identifier);
+      if (!record?.pubkey) {
+        throw new ProfileNotFoundError(identifier);
+      }
+      identifier = record.pubkey;
+      nip05Relays = record.relays;
+    }
 
-    const storage = new StorageService(env);
-    const imageService = new ImageService(
-      parseInt(env.MAX_IMAGE_SIZE),
-      env.ALLOWED_IMAGE_TYPES.split(','),
-      env,
-    );
+    let pubkey: string;
+    let variant: ImageVariant;
+    let relays: string[];
+    if (kind === 'banner') {
+      const bannerRequest = parseBannerRequest(request, identifier);
+      const { width, height, format } = bannerRequest;
+      pubkey = bannerRequest.pubkey;
+      relays = bannerRequest.relays || [];
+      variant = {
+        kind,
+        pubkey,
+        width,
+        height,
+        format,
+        cacheKey: getBannerCacheKey(pubkey, width, height, format),
+      };
+    } else {
+      avatarRequest = parseAvatarRequest(request, identifier);
+      const { size, format, animated } = avatarRequest;
+      pubkey = avatarRequest.pubkey;
+      relays = avatarRequest.relays || [];
+      variant = {
+        kind,
+        pubkey,
+        width: size || 400,
+        height: size || 400,
+        format,
+        animated,
+        cacheKey: getCacheKey(pubkey, size, format, animated),
+      };
+    }
+
+    const relayHints = [...relays, ...nip05Relays];
+    logger.set({ pubkey });
+
+    const edgeResponse = await serveEdgeCachedImage(request, env, ctx, variant, relayHints, logger);
+    if (edgeResponse) return edgeResponse;
 
-    const cacheKey = getCacheKey(pubkey, size, format);
     const metadata = await storage.getProfileMetadata(pubkey);
 
-    if (metadata && metadata.sizes[cacheKey]) {
-      const cachedResponse = await serveCachedImage(request, env, metadata, cacheKey, storage);
+    if (metadata && getCachedVariants(metadata, kind)[variant.cacheKey]) {
+      const cachedResponse = await serveCachedImage(
+        request,
+        env,
+        ctx,
+        metadata,
+        variant,
+        relayHints,
+        storage,
+        logger,
+      );
       if (cachedResponse) return cachedResponse;
     }
 
-    return await fetchAndProcessNewImage(
-      request,
-      env,
-      pubkey,
-      size || 400,
-      format,
-      cacheKey,
-      metadata,
-      storage,
-      imageService,
-    );
+    // Inside the backoff window, replay the last failure instead of hitting the origin again
+    const retryAfter = metadata ? getRetryAfter(metadata, kind) : 0;
+    if (metadata?.lastError && retryAfter > 0) {
+      logger.set({ cache: 'backoff' });
+      return handleErrorResponse(
+        request,
+        env,
+        fromFailureRecord(metadata.lastError),
+        avatarRequest,
+        retryAfter,
+      );
+    }
+
+    return await fetchAndProcessNewImage(request, env, ctx, variant, relayHints, logger);
   } catch (error) {
-    console.error('Error handling avatar request:', error);
-    return handleErrorResponse(request, env, error, params.pubkey);
+    logger.error(`Error handling ${kind} request`, errorFields(error));
+    return handleErrorResponse(request, env, error, avatarRequest);
   }
 }
+
+export async function handleAvatar(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  params: { identifier: string },
+  logger?: Logger,
+): Promise<Response> {
+  return handleProfileImage(request, env, ctx, params, 'avatar', logger);
+}
@@ -0,0 +1,13 @@
+import { Env } from '../types';
+import { handleProfileImage } from './avatar';
+import { Logger } from '../utils/logger';
+
+export async function handleBanner(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  params: { identifier: string },
+  logger?: Logger,
+): Promise<Response> {
+  return handleProfileImage(request, env, ctx, params, 'banner', logger);
+}
@@ -0,0 +1,183 @@
+import {
+  BatchAvatarEntry,
+  Env,
+  ImageFormat,
+  ImageVariant,
+  NostrProfile,
+  ProfileWarmMessage,
+} from '../types';
+import { createRelayPool } from '../services/nostr';
+import { StorageService } from '../services/storage';
+import { FetchCoalescer } from '../services/coalescer';
+import { toWarmMessage } from '../services/profileQueue';
+import { getCorsHeaders } from '../utils/cors';
+import { getCacheKey, getRetryAfter, shouldRevalidate } from '../utils/cache';
+import { parseBatchAvatarRequest } from '../utils/validation';
+import { createLogger, errorFields, Logger } from '../utils/logger';
+
+// Background fetches run a few at a time to stay within the Worker's CPU and memory limits
+const BACKGROUND_CONCURRENCY = 4;
+// Queues accept at most 100 messages per sendBatch call
+const QUEUE_BATCH_SIZE = 100;
+
+function jsonResponse(request: Request, env: Env, body: unknown, status: number): Response {
+  const headers = new Headers(getCorsHeaders(request, env));
+  headers.set('Content-Type', 'application/json');
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+async function warmAvatars(
+  env: Env,
+  profiles: NostrProfile[],
+  variantFor: (pubkey: string) => ImageVariant,
+  logger: Logger,
+): Promise<void> {
+  const queue = [...profiles];
+
+  const worker = async () => {
+    for (let profile = queue.shift(); profile; profile = queue.shift()) {
+      const profileLogger = logger.child({ pubkey: profile.pubkey });
+      try {
+        // Goes through the coalescer so it shares work with concurrent /avatar misses
+        await new FetchCoalescer(env, profileLogger).fetchVariant({
+          variant: variantFor(profile.pubkey),
+          profile,
+        });
+      } catch (error) {
+        // The fetch job has recorded the failure
+        profileLogger.error('Background fetch failed', errorFields(error));
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: BACKGROUND_CONCURRENCY }, worker));
+}
+
+async function enqueueAvatars(
+  queue: Queue<ProfileWarmMessage>,
+  profiles: NostrProfile[],
+  size: number,
+  format?: ImageFormat,
+): Promise<void> {
+  for (let i = 0; i < profiles.length; i += QUEUE_BATCH_SIZE) {
+    await queue.sendBatch(
+      profiles
+        .slice(i, i + QUEUE_BATCH_SIZE)
+        .map((profile) => ({ body: toWarmMessage(profile, size, format) })),
+    );
+  }
+}
+
+export async function handleBatchAvatars(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  logger: Logger = createLogger(env),
+): Promise<Response> {
+  let batchRequest;
+  try {
+    batchRequest = parseBatchAvatarRequest(await request.json());
+  } catch (error) {
+    const message = error instanceof SyntaxError ? 'Invalid JSON body' : (error as Error).message;
+    return jsonResponse(request, env, { error: message }, 400);
+  }
+
+  const { pubkeys, size, format } = batchRequest;
+  const origin = new URL(request.url).origin;
+  const maxAge = parseInt(env.IMAGE_CACHE_DURATION);
+
+  const variantFor = (pubkey: string): ImageVariant => ({
+    kind: 'avatar',
+    pubkey,
+    width: size,
+    height: size,
+    format,
+    cacheKey: getCacheKey(pubkey, size, format),
+  });
+
+  const buildUrl = (pubkey: string) => {
+    const url = new URL(`/avatar/${pubkey}`, origin);
+    url.searchParams.set('size', size.toString());
+    if (format) url.searchParams.set('format', format);
+    return url.toString();
+  };
+
+  try {
+    const storage = new StorageService(env, logger);
+    const metadataMap = await storage.getProfileMetadataBatch(pubkeys);
+
+    const avatars: Record<string, BatchAvatarEntry> = {};
+    const misses: string[] = [];
+
+    for (const pubkey of pubkeys) {
+      const metadata = metadataMap.get(pubkey);
+      const cached = metadata?.sizes[variantFor(pubkey).cacheKey];
+      const stale = !!metadata && !!cached && shouldRevalidate(metadata, maxAge);
+
+      avatars[pubkey] = {
+        url: buildUrl(pubkey),
+        cacheStatus: cached ? (stale ? 'STALE' : 'HIT') : 'MISS',
+        etag: cached?.etag || null,
+        originalUrl: metadata?.originalUrl || null,
+        queued: false,
+        failed: (metadata?.failureCount || 0) > 0,
+        failureCount: metadata?.failureCount || 0,
+      };
+
+      // Profiles still backing off from a failure aren't fetched again yet
+      const backingOff = !!metadata && getRetryAfter(metadata, 'avatar') > 0;
+      if ((!cached || stale) && !backingOff) {
+        misses.push(pubkey);
+      }
+    }
+
+    if (misses.length > 0) {
+      // One subscription per relay for every miss instead of a lookup per avatar
+      let profiles = new Map<string, NostrProfile>();
+      try {
+        profiles = await createRelayPool(env, logger).fetchProfiles(misses);
+      } catch (error) {
+        logger.error('Batch profile lookup failed', errorFields(error));
+      }
+
+      const toWarm: NostrProfile[] = [];
+      for (const pubkey of misses) {
+        const profile = profiles.get(pubkey);
+        if (profile?.picture) {
+          avatars[pubkey].originalUrl = profile.picture;
+          avatars[pubkey].queued = true;
+          toWarm.push(profile);
+        } else if (profiles.size > 0 && avatars[pubkey].cacheStatus === 'MISS') {
+          // The relay answered but has no usable picture for this key
+          avatars[pubkey].failed = true;
+        }
+      }
+
+      if (toWarm.length > 0) {
+        let enqueued = false;
+        if (env.PROFILE_QUEUE) {
+          // The queue consumer renders them over its own invocations
+          try {
+            await enqueueAvatars(env.PROFILE_QUEUE, toWarm, size, format);
+            enqueued = true;
+          } catch (error) {
+            logger.error('Failed to queue batch misses', errorFields(error));
+          }
+        }
+        if (!enqueued) {
+          ctx.waitUntil(warmAvatars(env, toWarm, variantFor, logger));
+        }
+      }
+    }
+
+    return jsonResponse(request, env, { size, format: format || null, avatars }, 200);
+  } catch (error) {
+    logger.error('Error handling batch avatar request', errorFields(error));
+    return jsonResponse(
+      request,
+      env,
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      500,
+    );
+  }
+}
@@ -1,7 +1,68 @@
-import { Env, HealthCheckResponse } from '../types';
+import { Env, HealthCheckResponse, RelayHealth } from '../types';
+import { StorageService } from '../services/storage';
+import { checkRelay, getConfiguredRelays } from '../services/nostr';
 import { getCorsHeaders } from '../utils/cors';
+import { getCacheHitRate, getMetrics } from '../utils/metrics';
+import { createLogger, errorFields, Logger } from '../utils/logger';
 
-export async function handleHealth(request: Request, env: Env): Promise<Response> {
+// Load balancer pings hit /health often, so relays and stats are only read on ?deep=true
+const RELAY_CHECK_TIMEOUT = 2000;
+// Deep checks open a WebSocket to every relay, so callers within this window
+// share one result
+const DEEP_CHECK_TTL = 10000;
+
+interface DeepCheck {
+  relays: RelayHealth[];
+  stats?: HealthCheckResponse['stats'];
+}
+
+// Keyed by env, which stays the same for the life of an isolate
+const deepChecks = new WeakMap<Env, { expiresAt: number; result: Promise<DeepCheck> }>();
+
+function getDeepCheck(env: Env, logger: Logger): Promise<DeepCheck> {
+  const cached = deepChecks.get(env);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.result;
+  }
+
+  const result = runDeepCheck(env, logger);
+  deepChecks.set(env, { expiresAt: Date.now() + DEEP_CHECK_TTL, result });
+  return result;
+}
+
+// Never rejects, so a cached result is always usable
+async function runDeepCheck(env: Env, logger: Logger): Promise<DeepCheck> {
+  // Check every configured relay in parallel
+  const relays = await Promise.all(
+    getConfiguredRelays(env).map((relay) => checkRelay(relay, RELAY_CHECK_TIMEOUT, logger)),
+  );
+
+  // Reading the totals means a KV read and a call to the METRICS Durable Object
+  try {
+    const [storageStats, metrics] = await Promise.all([
+      new StorageService(env, logger).getStats(),
+      getMetrics(env),
+    ]);
+    return {
+      relays,
+      stats: {
+        totalProfiles: storageStats.totalProfiles,
+        totalImages: storageStats.totalImages,
+        storageUsed: storageStats.storageUsed,
+        cacheHitRate: getCacheHitRate(metrics),
+      },
+    };
+  } catch (error) {
+    logger.warn('Stats unavailable', errorFields(error));
+    return { relays };
+  }
+}
+
+export async function handleHealth(
+  request: Request,
+  env: Env,
+  logger: Logger = createLogger(env),
+): Promise<Response> {
   const startTime = Date.now();
 
   // Check R2 connectivity
@@ -11,7 +72,7 @@ export async function handleHealth(request: Request, env: Env): Promise<Response
     await env.AVATAR_BUCKET.list({ limit: 1 });
     r2Status = 'connected';
   } catch (error) {
-    console.error('R2 health check failed:', error);
+    logger.error('R2 health check failed', errorFields(error));
   }
 
   // Check KV connectivity
@@ -21,17 +82,26 @@ export async function handleHealth(request: Request, env: Env): Promise<Response
     await env.PROFILE_KV.get('health-check-' + Date.now());
     kvStatus = 'connected';
   } catch (error) {
-    console.error('KV health check failed:', error);
+    logger.error('KV health check failed', errorFields(error));
   }
 
-  // For now, relay status is always 'connected' as we create connections on demand
-  const relayStatus: 'connected' | 'error' = 'connected';
+  let deepCheck: DeepCheck | undefined;
+  let relayStatus: 'connected' | 'error' | 'unchecked' = 'unchecked';
+  if (new URL(request.url).searchParams.get('deep') === 'true') {
+    deepCheck = await getDeepCheck(env, logger);
+    relayStatus = deepCheck.relays.some((relay) => relay.status === 'connected')
+      ? 'connected'
+      : 'error';
+  }
+  const relays = deepCheck?.relays;
+  const someRelaysDown = !!relays?.some((relay) => relay.status !== 'connected');
 
-  // Determine overall health status
+  // Determine overall health status. Misses need any one relay, so a single
+  // reachable relay only degrades the service.
   let overallStatus: 'healthy' | 'degraded' | 'unhealthy' = 'healthy';
-  if (r2Status === 'error' && kvStatus === 'error') {
+  if ((r2Status === 'error' && kvStatus === 'error') || relayStatus === 'error') {
     overallStatus = 'unhealthy';
-  } else if (r2Status === 'error' || kvStatus === 'error') {
+  } else if (r2Status === 'error' || kvStatus === 'error' || someRelaysDown) {
     overallStatus = 'degraded';
   }
 
@@ -44,7 +114,11 @@ export async function handleHealth(request: Request, env: Env): Promise<Response
       kv: kvStatus,
       relay: relayStatus,
     },
+    relays,
   };
+  if (deepCheck?.stats) {
+    response.stats = deepCheck.stats;
+  }
 
   const headers = new Headers(getCorsHeaders(request, env));
   headers.set('Content-Type', 'application/json');
@@ -0,0 +1,26 @@
+import { Env } from '../types';
+import { getCorsHeaders } from '../utils/cors';
+import { formatPrometheus, getMetrics } from '../utils/metrics';
+import { createLogger, errorFields, Logger } from '../utils/logger';
+
+export async function handleMetrics(
+  request: Request,
+  env: Env,
+  logger: Logger = createLogger(env),
+): Promise<Response> {
+  const headers = new Headers(getCorsHeaders(request, env));
+
+  try {
+    const snapshot = await getMetrics(env);
+    headers.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    headers.set('Cache-Control', 'no-store');
+    return new Response(formatPrometheus(snapshot), { status: 200, headers });
+  } catch (error) {
+    logger.error('Error reading metrics', errorFields(error));
+    headers.set('Content-Type', 'application/json');
+    return new Response(JSON.stringify({ error: 'Metrics unavailable' }), {
+      status: 503,
+      headers,
+    });
+  }
+}
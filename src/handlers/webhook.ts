@@ -0,0 +1,116 @@
+import { Env, NostrEvent } from '../types';
+import { StorageService } from '../services/storage';
+import { getEventRejection, parseProfileEvent } from '../services/nostr';
+import { refreshVariants } from '../services/profileQueue';
+import { verifyNip98Auth } from '../utils/auth';
+import { getAllCacheKeys } from '../utils/cache';
+import { getCorsHeaders } from '../utils/cors';
+import { purgeEdgeCache } from '../utils/edgeCache';
+import { createLogger, errorFields, Logger } from '../utils/logger';
+
+// Clients' clocks drift; anything further ahead could block later updates
+const MAX_FUTURE_SECONDS = 600;
+
+function jsonResponse(request: Request, env: Env, body: unknown, status: number): Response {
+  const headers = new Headers(getCorsHeaders(request, env));
+  headers.set('Content-Type', 'application/json');
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+// Takes a freshly signed kind:0 event from the app, posted by its author with
+// NIP-98 auth, and renders the new images right away instead of waiting for
+// the cached ones to go stale.
+export async function handleProfileUpdate(
+  request: Request,
+  env: Env,
+  logger: Logger = createLogger(env),
+): Promise<Response> {
+  const body = await request.text();
+
+  const signer = await verifyNip98Auth(request, body);
+  if (!signer) {
+    return jsonResponse(request, env, { error: 'Invalid NIP-98 authorization' }, 401);
+  }
+
+  let event: NostrEvent;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    return jsonResponse(request, env, { error: 'Invalid JSON body' }, 400);
+  }
+
+  // Only the profile's owner may push it
+  const rejection = getEventRejection(event, [{ kinds: [0], authors: [signer] }]);
+  if (rejection) {
+    return jsonResponse(request, env, { error: `Rejected event: ${rejection}` }, 400);
+  }
+
+  if (event.created_at > Math.floor(Date.now() / 1000) + MAX_FUTURE_SECONDS) {
+    return jsonResponse(request, env, { error: 'Event is dated in the future' }, 400);
+  }
+
+  logger.set({ pubkey: signer });
+
+  // Everything below is stored under the signer, never a pubkey the content names
+  const profile = parseProfileEvent(event, undefined, logger);
+  if (!profile || profile.pubkey !== signer) {
+    return jsonResponse(request, env, { error: 'Invalid profile content' }, 400);
+  }
+
+  try {
+    const storage = new StorageService(env, logger);
+    const metadata = await storage.getProfileMetadata(signer);
+
+    if (metadata && event.created_at * 1000 < metadata.profileUpdatedAt) {
+      return jsonResponse(
+        request,
+        env,
+        { error: 'A newer profile is already cached', profileUpdatedAt: metadata.profileUpdatedAt },
+        409,
+      );
+    }
+
+    // Taken before removed images are dropped from the metadata
+    const cacheKeys = getAllCacheKeys(metadata);
+
+    if (metadata) {
+      // Images the profile no longer has fall back to generated avatars
+      if (!profile.picture) {
+        metadata.originalUrl = '';
+        metadata.sizes = {};
+      }
+      if (!profile.banner) {
+        delete metadata.bannerUrl;
+        delete metadata.banners;
+      }
+
+      // The user just fixed their profile, so stop backing off. fetchedAt is
+      // left to the refresh, so images it fails to replace stay stale.
+      metadata.failureCount = 0;
+      delete metadata.lastFailure;
+      delete metadata.lastError;
+      metadata.profileUpdatedAt = event.created_at * 1000;
+      await storage.putProfileMetadata(metadata);
+    }
+
+    const errors = await refreshVariants(env, signer, profile, metadata, logger);
+    const refreshed = await storage.getProfileMetadata(signer);
+    await purgeEdgeCache(env, request.url, [...cacheKeys, ...getAllCacheKeys(refreshed)], logger);
+    logger.info('Profile updated by webhook', { refreshErrors: Object.keys(errors).length });
+
+    return jsonResponse(
+      request,
+      env,
+      { pubkey: signer, metadata: refreshed, errors },
+      Object.keys(errors).length > 0 ? 502 : 200,
+    );
+  } catch (error) {
+    logger.error('Error handling profile update', errorFields(error));
+    return jsonResponse(
+      request,
+      env,
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      500,
+    );
+  }
+}
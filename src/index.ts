@@ -1,30 +1,161 @@
-import { Env } from './types';
+import { Env, ProfileWarmMessage } from './types';
 import { handleHealth } from './handlers/health';
+import { handleMetrics } from './handlers/metrics';
 import { handleAvatar } from './handlers/avatar';
+import { handleBanner } from './handlers/banner';
+import { handleBatchAvatars } from './handlers/batch';
+import { handleAdmin } from './handlers/admin';
+import { handleProfileUpdate } from './handlers/webhook';
 import { handleOptions, getCorsHeaders } from './utils/cors';
-import { checkRateLimit } from './utils/rateLimit';
+import { checkRateLimit, getAllowedRateLimitHeaders, RateLimitOptions } from './utils/rateLimit';
+import { flushMetrics, flushMetricsIfDue, incrementCounter } from './utils/metrics';
+import { createLogger, errorFields, getRequestId, Logger } from './utils/logger';
+
+export { FetchCoordinator } from './durable/fetchCoordinator';
+export { RateLimitCoordinator } from './durable/rateLimitCoordinator';
+export { MetricsCoordinator } from './durable/metricsCoordinator';
+
+// Hex pubkey, npub, nprofile or NIP-05 identifier
+const IDENTIFIER_PATTERN =
+  '([0-9a-fA-F]{64}|npub1[0-9a-z]+|nprofile1[0-9a-z]+|[^/@]+(?:@|%40)[^/@]+)';
+const AVATAR_ROUTE = new RegExp(`^/avatar/${IDENTIFIER_PATTERN}$`);
+const BANNER_ROUTE = new RegExp(`^/banner/${IDENTIFIER_PATTERN}$`);
+
+// Per-route rate limits, keyed by the first path segment. API keys listed in
+// RATE_LIMIT_API_KEYS override these with their own limits.
+const DEFAULT_RATE_LIMIT: RateLimitOptions = {
+  windowMs: 60000, // 1 minute
+  maxRequests: 60, // 60 requests per minute per IP
+};
+const RATE_LIMITS = new Map<string, RateLimitOptions>([
+  ['avatar', DEFAULT_RATE_LIMIT],
+  ['banner', DEFAULT_RATE_LIMIT],
+  // Each batch call resolves up to 300 avatars, so allow small bursts only
+  ['avatars', { windowMs: 60000, maxRequests: 10, mode: 'token-bucket' }],
+]);
+
+function jsonResponse(request: Request, env: Env, body: unknown, status: number): Response {
+  const headers = new Headers(getCorsHeaders(request, env));
+  headers.set('Content-Type', 'application/json');
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+// Null for malformed percent-escapes, which the identifier pattern lets through
+function decodePathSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+// Counts how an image request was answered, from the headers the handlers set
+function recordImageResponse(kind: string, request: Request, response: Response): void {
+  if (response.status !== 200 && response.status !== 206 && response.status !== 304) return;
+
+  if (response.headers.get('X-Avatar-Fallback')) {
+    incrementCounter('yestr_fallback_avatars_total');
+  } else {
+    const status = (response.headers.get('X-Cache') || 'MISS').toLowerCase();
+    incrementCounter('yestr_cache_requests_total', { kind, status });
+  }
+
+  const length = parseInt(response.headers.get('Content-Length') || '');
+  if (request.method === 'GET' && response.status !== 304 && length > 0) {
+    incrementCounter('yestr_bytes_served_total', { kind }, length);
+  }
+}
+
+async function route(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  url: URL,
+  logger: Logger,
+): Promise<Response> {
+  // Route handling
+  if (url.pathname === '/health' || url.pathname === '/') {
+    return handleHealth(request, env, logger);
+  }
+
+  if (url.pathname === '/metrics') {
+    return handleMetrics(request, env, logger);
+  }
+
+  // Avatar endpoint - extract identifier from path
+  const avatarMatch = url.pathname.match(AVATAR_ROUTE);
+  if (avatarMatch && (request.method === 'GET' || request.method === 'HEAD')) {
+    const identifier = decodePathSegment(avatarMatch[1]);
+    if (identifier === null) {
+      return jsonResponse(request, env, { error: 'Invalid pubkey format' }, 400);
+    }
+    return handleAvatar(request, env, ctx, { identifier }, logger);
+  }
+
+  // Banner endpoint - same identifiers, wide sizes
+  const bannerMatch = url.pathname.match(BANNER_ROUTE);
+  if (bannerMatch && (request.method === 'GET' || request.method === 'HEAD')) {
+    const identifier = decodePathSegment(bannerMatch[1]);
+    if (identifier === null) {
+      return jsonResponse(request, env, { error: 'Invalid pubkey format' }, 400);
+    }
+    return handleBanner(request, env, ctx, { identifier }, logger);
+  }
+
+  // Batch avatar resolution
+  if (url.pathname === '/avatars/batch' && request.method === 'POST') {
+    return handleBatchAvatars(request, env, ctx, logger);
+  }
+
+  // Signed profile updates pushed by the app
+  if (url.pathname === '/webhook/profile-update' && request.method === 'POST') {
+    return handleProfileUpdate(request, env, logger);
+  }
+
+  // Authenticated purge, refresh and inspection
+  if (url.pathname.startsWith('/admin/')) {
+    return handleAdmin(request, env, url, logger);
+  }
+
+  // 404 for unknown routes
+  return jsonResponse(request, env, { error: 'Not found' }, 404);
+}
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
+    const segment = url.pathname.split('/')[1];
+    const requestId = getRequestId(request);
+    const logger = createLogger(env, requestId);
 
     // Handle CORS preflight
     if (request.method === 'OPTIONS') {
       return handleOptions(request, env);
     }
 
-    // Apply rate limiting (except for health checks)
-    if (url.pathname !== '/health' && url.pathname !== '/') {
-      const rateLimitResponse = await checkRateLimit(request, 'avatar', {
-        windowMs: 60000, // 1 minute
-        maxRequests: 60, // 60 requests per minute per IP
-      });
+    // Apply rate limiting, except to health pings; deep checks reach out to
+    // every relay and are limited like any other request
+    const healthPing =
+      (url.pathname === '/health' || url.pathname === '/') &&
+      url.searchParams.get('deep') !== 'true';
+    if (!healthPing) {
+      const limiterKey = RATE_LIMITS.has(segment) ? segment : 'global';
+      const rateLimitResponse = await checkRateLimit(
+        request,
+        limiterKey,
+        RATE_LIMITS.get(limiterKey) || DEFAULT_RATE_LIMIT,
+        env,
+        logger,
+      );
 
       if (rateLimitResponse) {
+        logger.info('Request rate limited', { method: request.method, path: url.pathname });
+
         // Add CORS headers to rate limit response
         const headers = new Headers(rateLimitResponse.headers);
         const corsHeaders = getCorsHeaders(request, env);
         corsHeaders.forEach((value, key) => headers.set(key, value));
+        headers.set('X-Request-Id', requestId);
 
         return new Response(rateLimitResponse.body, {
           status: rateLimitResponse.status,
@@ -33,62 +164,92 @@ export default {
       }
     }
 
-    // Route handling
-    if (url.pathname === '/health' || url.pathname === '/') {
-      return handleHealth(request, env);
-    }
+    const response = await route(request, env, ctx, url, logger);
 
-    // Avatar endpoint - extract pubkey from path
-    const avatarMatch = url.pathname.match(/^\/avatar\/([0-9a-fA-F]{64})$/);
-    if (avatarMatch && request.method === 'GET') {
-      const pubkey = avatarMatch[1];
-      return handleAvatar(request, env, { pubkey });
+    if (segment === 'avatar' || segment === 'banner') {
+      recordImageResponse(segment, request, response);
     }
+    ctx.waitUntil(flushMetricsIfDue(env, logger));
 
-    // 404 for unknown routes
-    const headers = new Headers(getCorsHeaders(request, env));
-    headers.set('Content-Type', 'application/json');
+    logger.info('Request handled', {
+      method: request.method,
+      path: url.pathname,
+      status: response.status,
+    });
+
+    const headers = new Headers(response.headers);
+    headers.set('X-Request-Id', requestId);
+
+    // Report the remaining quota on allowed responses too
+    getAllowedRateLimitHeaders(request)?.forEach((value, key) => headers.set(key, value));
 
-    return new Response(JSON.stringify({ error: 'Not found' }), {
-      status: 404,
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
       headers,
     });
   },
 
   // Scheduled handler for background jobs
   async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
-    console.log(`Scheduled event at ${new Date(event.scheduledTime).toISOString()}`);
+    const logger = createLogger(env, crypto.randomUUID());
+    logger.info('Scheduled event', {
+      cron: event.cron,
+      scheduledTime: new Date(event.scheduledTime).toISOString(),
+    });
 
     switch (event.cron) {
-      case '*/5 * * * *': // Every 5 minutes
-        console.log('Running profile scanner...');
-
+      // Every 5 minutes
+      case '*/5 * * * *': {
         // Import services dynamically to avoid issues with top-level imports
         const { NostrService } = await import('./services/nostr');
         const { StorageService } = await import('./services/storage');
         const { ProfileScanner } = await import('./services/profileScanner');
-
-        const nostrService = new NostrService(env.RELAY_URL);
-        const storageService = new StorageService(env);
-        const scanner = new ProfileScanner(env, nostrService, storageService);
+        const { getProfileQueue } = await import('./services/profileQueue');
+
+        // The scan cursor tracks one relay's history, so the scanner pages the
+        // primary relay; lookups for individual profiles use the whole pool
+        const nostrService = new NostrService(env.RELAY_URL, logger);
+        const storageService = new StorageService(env, logger);
+        const scanner = new ProfileScanner(
+          env,
+          nostrService,
+          storageService,
+          getProfileQueue(env, ctx),
+          logger,
+        );
 
         try {
-          // Scan for recent profiles
-          await scanner.scanRecentProfiles(50); // Scan up to 50 profiles
-
-          // Run cleanup once a day (at midnight)
-          const hour = new Date(event.scheduledTime).getUTCHours();
-          if (hour === 0) {
-            console.log('Running daily cleanup...');
-            await scanner.cleanupOldImages(30); // Clean images older than 30 days
+          // Scan profiles published since the last run
+          await scanner.scanRecentProfiles();
+
+          // Continue a manual backfill if one was started
+          await scanner.runBackfill();
+
+          // Start garbage collection once a day (at midnight) and continue it
+          // a few pages at a time on the following runs
+          const scheduled = new Date(event.scheduledTime);
+          const midnight = scheduled.getUTCHours() === 0 && scheduled.getUTCMinutes() === 0;
+          if (midnight) {
+            logger.info('Starting daily garbage collection');
           }
+          await scanner.collectGarbage(midnight);
         } catch (error) {
-          console.error('Error in scheduled job:', error);
+          logger.error('Error in scheduled job', errorFields(error));
         }
+        await flushMetrics(env, logger);
         break;
+      }
 
       default:
-        console.log('Unknown cron trigger:', event.cron);
+        logger.warn('Unknown cron trigger', { cron: event.cron });
     }
   },
+
+  // Consumer for profiles queued by the scanner, and for its dead-letter queue
+  async queue(batch: MessageBatch<ProfileWarmMessage>, env: Env): Promise<void> {
+    const { handleProfileQueue } = await import('./services/profileQueue');
+    await handleProfileQueue(batch, env);
+    await flushMetrics(env);
+  },
 };
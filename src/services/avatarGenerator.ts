@@ -0,0 +1,133 @@
+import { ImageFormat } from '../types';
+import { createImageData } from '../utils/imageData';
+
+const GRID_SIZE = 5;
+const BACKGROUND: [number, number, number] = [240, 240, 240];
+
+export interface GeneratedAvatar {
+  body: string | ArrayBuffer;
+  contentType: string;
+  etag: string;
+}
+
+interface Identicon {
+  cells: boolean[];
+  color: [number, number, number];
+}
+
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = lightness - chroma / 2;
+
+  const [r, g, b] =
+    hue < 60
+      ? [chroma, x, 0]
+      : hue < 120
+        ? [x, chroma, 0]
+        : hue < 180
+          ? [0, chroma, x]
+          : hue < 240
+            ? [0, x, chroma]
+            : hue < 300
+              ? [x, 0, chroma]
+              : [chroma, 0, x];
+
+  return [Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255)];
+}
+
+function toHex(color: [number, number, number]): string {
+  return '#' + color.map((channel) => channel.toString(16).padStart(2, '0')).join('');
+}
+
+// Generates GitHub-style identicons: a horizontally mirrored 5x5 grid whose
+// pattern and colour are read straight from the pubkey bytes.
+export class AvatarGenerator {
+  private getIdenticon(pubkey: string): Identicon {
+    const bytes = pubkey
+      .toLowerCase()
+      .match(/.{2}/g)!
+      .map((byte) => parseInt(byte, 16));
+
+    const hue = ((bytes[0] << 8) | bytes[1]) % 360;
+    const color = hslToRgb(hue, 0.65, 0.5);
+
+    const half = Math.ceil(GRID_SIZE / 2);
+    const cells: boolean[] = new Array(GRID_SIZE * GRID_SIZE).fill(false);
+    for (let row = 0; row < GRID_SIZE; row++) {
+      for (let col = 0; col < half; col++) {
+        const filled = bytes[2 + row * half + col] % 2 === 0;
+        cells[row * GRID_SIZE + col] = filled;
+        cells[row * GRID_SIZE + (GRID_SIZE - 1 - col)] = filled;
+      }
+    }
+
+    return { cells, color };
+  }
+
+  generateSvg(pubkey: string, size: number): string {
+    const { cells, color } = this.getIdenticon(pubkey);
+    // Draw on a 7x7 canvas to leave a one-cell margin around the grid
+    const canvas = GRID_SIZE + 2;
+
+    const rects = cells
+      .map((filled, index) =>
+        filled
+          ? `<rect x="${(index % GRID_SIZE) + 1}" y="${Math.floor(index / GRID_SIZE) + 1}" width="1" height="1"/>`
+          : '',
+      )
+      .join('');
+
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" ` +
+      `viewBox="0 0 ${canvas} ${canvas}" shape-rendering="crispEdges">` +
+      `<rect width="${canvas}" height="${canvas}" fill="${toHex(BACKGROUND)}"/>` +
+      `<g fill="${toHex(color)}">${rects}</g></svg>`
+    );
+  }
+
+  renderPixels(pubkey: string, size: number): ImageData {
+    const { cells, color } = this.getIdenticon(pubkey);
+    const canvas = GRID_SIZE + 2;
+    const data = new Uint8ClampedArray(size * size * 4);
+
+    for (let y = 0; y < size; y++) {
+      const row = Math.floor((y * canvas) / size) - 1;
+      for (let x = 0; x < size; x++) {
+        const col = Math.floor((x * canvas) / size) - 1;
+        const inGrid = row >= 0 && row < GRID_SIZE && col >= 0 && col < GRID_SIZE;
+        const [r, g, b] = inGrid && cells[row * GRID_SIZE + col] ? color : BACKGROUND;
+
+        const offset = (y * size + x) * 4;
+        data[offset] = r;
+        data[offset + 1] = g;
+        data[offset + 2] = b;
+        data[offset + 3] = 255;
+      }
+    }
+
+    return createImageData(data, size, size);
+  }
+
+  // SVG unless a raster format was explicitly requested
+  async generate(pubkey: string, size: number, format?: ImageFormat): Promise<GeneratedAvatar> {
+    const etag = `"fallback-${pubkey.slice(0, 16)}-${size}-${format || 'svg'}"`;
+
+    if (!format) {
+      return {
+        body: this.generateSvg(pubkey, size),
+        contentType: 'image/svg+xml',
+        etag,
+      };
+    }
+
+    const { encodeImage } = await import('./codecs');
+    const buffer = await encodeImage(this.renderPixels(pubkey, size), format, 90);
+
+    return {
+      body: buffer,
+      contentType: `image/${format}`,
+      etag,
+    };
+  }
+}
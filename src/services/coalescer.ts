@@ -0,0 +1,175 @@
+import {
+  Env,
+  FailureRecord,
+  ImageFetchError,
+  ImageVariant,
+  NostrProfile,
+  ProfileNotFoundError,
+} from '../types';
+import { createRelayPool } from './nostr';
+import { ImageService } from './image';
+import { StorageService } from './storage';
+import { ImagePipeline } from './imagePipeline';
+import { fromFailureRecord, toFailureRecord } from '../utils/errors';
+import { createLogger, Logger } from '../utils/logger';
+
+export interface FetchJob {
+  variant: ImageVariant;
+  relayHints?: string[];
+  // Skip the relay lookup when the caller already has the profile
+  profile?: NostrProfile;
+  // Download the source again even if its URL hasn't changed
+  refreshSource?: boolean;
+}
+
+export interface VariantResult {
+  body: ArrayBuffer;
+  contentType: string;
+  etag: string;
+  lastModified: number;
+}
+
+// The upstream work shared by all waiters: relay lookup, download, processing
+// and R2 write. It logs under the request that started it. Failures are
+// recorded here rather than by each waiter, so one failed fetch counts once
+// towards the backoff however many requests were waiting on it.
+export async function runFetchJob(
+  env: Env,
+  job: FetchJob,
+  logger: Logger = createLogger(env),
+): Promise<VariantResult> {
+  const storage = new StorageService(env, logger);
+  try {
+    return await fetchVariantUpstream(env, job, storage, logger);
+  } catch (error) {
+    if (error instanceof ProfileNotFoundError || error instanceof ImageFetchError) {
+      await storage.recordFailure(job.variant.pubkey, error, job.variant.kind);
+    }
+    throw error;
+  }
+}
+
+async function fetchVariantUpstream(
+  env: Env,
+  job: FetchJob,
+  storage: StorageService,
+  logger: Logger,
+): Promise<VariantResult> {
+  const { variant } = job;
+  const profile =
+    job.profile ||
+    (await createRelayPool(env, logger).fetchProfile(variant.pubkey, job.relayHints));
+
+  if (!profile) {
+    throw new ProfileNotFoundError(variant.pubkey);
+  }
+
+  const imageService = new ImageService(
+    parseInt(env.MAX_IMAGE_SIZE),
+    env.ALLOWED_IMAGE_TYPES.split(','),
+    env,
+    logger,
+  );
+  const pipeline = new ImagePipeline(storage, imageService, logger);
+
+  // Tells the pipeline which fetch strategy to try first and whether the source
+  // is already stored; it re-reads metadata itself before writing
+  const metadata = await storage.getProfileMetadata(variant.pubkey);
+  const { processedImage, cachedImage } = await pipeline.processVariant(
+    profile,
+    variant,
+    metadata,
+    job.refreshSource,
+  );
+
+  return {
+    body: processedImage.buffer,
+    contentType: processedImage.contentType,
+    etag: cachedImage.etag,
+    lastModified: cachedImage.lastModified,
+  };
+}
+
+export function coalesce<T>(
+  inFlight: Map<string, Promise<T>>,
+  key: string,
+  run: () => Promise<T>,
+): Promise<T> {
+  const existing = inFlight.get(key);
+  if (existing) return existing;
+
+  const promise = run().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
+
+export function serializeResult(result: VariantResult): Response {
+  return new Response(result.body, {
+    status: 200,
+    headers: {
+      'Content-Type': result.contentType,
+      ETag: result.etag,
+      'X-Last-Modified': result.lastModified.toString(),
+    },
+  });
+}
+
+// Errors cross the Durable Object boundary as JSON so waiters get the original error class
+export function serializeError(error: unknown): Response {
+  return new Response(JSON.stringify(toFailureRecord(error)), {
+    status: 500,
+    headers: { 'Content-Type': 'application/json', 'X-Fetch-Error': 'true' },
+  });
+}
+
+async function deserializeResponse(response: Response): Promise<VariantResult> {
+  if (response.headers.get('X-Fetch-Error')) {
+    throw fromFailureRecord((await response.json()) as FailureRecord);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Fetch coordinator failed: ${response.status}`);
+  }
+
+  return {
+    body: await response.arrayBuffer(),
+    contentType: response.headers.get('Content-Type') || 'application/octet-stream',
+    etag: response.headers.get('ETag') || '',
+    lastModified: parseInt(response.headers.get('X-Last-Modified') || '') || Date.now(),
+  };
+}
+
+// Fallback for when the FETCH_COORDINATOR binding isn't configured: only
+// requests landing in the same isolate are coalesced.
+const localInFlight = new Map<string, Promise<VariantResult>>();
+
+// Makes concurrent cache misses for the same variant share one upstream fetch and R2 write
+export class FetchCoalescer {
+  constructor(
+    private env: Env,
+    private logger: Logger = createLogger(env),
+  ) {}
+
+  async fetchVariant(job: FetchJob): Promise<VariantResult> {
+    if (!this.env.FETCH_COORDINATOR) {
+      return coalesce(localInFlight, job.variant.cacheKey, () =>
+        runFetchJob(this.env, job, this.logger),
+      );
+    }
+
+    // One coordinator per pubkey, so avatars and banners of a profile share its in-flight map
+    const id = this.env.FETCH_COORDINATOR.idFromName(job.variant.pubkey);
+    const stub = this.env.FETCH_COORDINATOR.get(id);
+    const response = await stub.fetch('https://fetch-coordinator/variant', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // So the coordinator's lines can be matched to this request
+        'X-Request-Id': this.logger.requestId || '',
+      },
+      body: JSON.stringify(job),
+    });
+
+    return deserializeResponse(response);
+  }
+}
@@ -0,0 +1,254 @@
+import decodeJpeg, { init as initJpegDecode } from '@jsquash/jpeg/decode';
+import encodeJpeg, { init as initJpegEncode } from '@jsquash/jpeg/encode';
+import decodePng, { init as initPngDecode } from '@jsquash/png/decode';
+import encodePng, { init as initPngEncode } from '@jsquash/png/encode';
+import decodeWebp, { init as initWebpDecode } from '@jsquash/webp/decode';
+import encodeWebp, { init as initWebpEncode } from '@jsquash/webp/encode';
+import resize, { initResize } from '@jsquash/resize';
+import { GifReader, GifWriter } from 'omggif';
+import JPEG_DEC_WASM from '@jsquash/jpeg/codec/dec/mozjpeg_dec.wasm';
+import JPEG_ENC_WASM from '@jsquash/jpeg/codec/enc/mozjpeg_enc.wasm';
+import PNG_WASM from '@jsquash/png/codec/pkg/squoosh_png_bg.wasm';
+import WEBP_DEC_WASM from '@jsquash/webp/codec/dec/webp_dec.wasm';
+import WEBP_ENC_WASM from '@jsquash/webp/codec/enc/webp_enc_simd.wasm';
+import RESIZE_WASM from '@jsquash/resize/lib/resize/pkg/squoosh_resize_bg.wasm';
+import { ImageFormat } from '../types';
+import { createImageData } from '../utils/imageData';
+
+// The Workers runtime can't fetch the codecs' wasm files at runtime, so every
+// codec is initialised once per isolate from the modules bundled by Wrangler.
+let initialized: Promise<unknown> | null = null;
+
+function ensureInitialized(): Promise<unknown> {
+  if (!initialized) {
+    initialized = Promise.all([
+      initJpegDecode(JPEG_DEC_WASM),
+      initJpegEncode(JPEG_ENC_WASM),
+      initPngDecode(PNG_WASM),
+      initPngEncode(PNG_WASM),
+      initWebpDecode(WEBP_DEC_WASM),
+      initWebpEncode(WEBP_ENC_WASM),
+      initResize(RESIZE_WASM),
+    ]).catch((error) => {
+      initialized = null;
+      throw error;
+    });
+  }
+  return initialized;
+}
+
+export interface AnimationFrame {
+  image: ImageData;
+  // Hundredths of a second, as in GIF
+  delay: number;
+}
+
+export interface Animation {
+  frames: AnimationFrame[];
+  // 0 loops forever, null plays once
+  loopCount: number | null;
+}
+
+function decodeGif(buffer: ArrayBuffer): ImageData {
+  const reader = new GifReader(new Uint8Array(buffer));
+  const pixels = new Uint8ClampedArray(reader.width * reader.height * 4);
+  reader.decodeAndBlitFrameRGBA(0, pixels);
+  return createImageData(pixels, reader.width, reader.height);
+}
+
+// Composites up to maxFrames frames of a GIF onto one canvas, applying each
+// frame's disposal method before the next is drawn. Every composited frame is
+// passed through transform straight away, so only the transformed frames are
+// kept rather than a full-size copy of each.
+export async function decodeGifAnimation(
+  buffer: ArrayBuffer,
+  maxFrames: number,
+  transform: (image: ImageData) => Promise<ImageData>,
+): Promise<Animation> {
+  const reader = new GifReader(new Uint8Array(buffer));
+  const { width, height } = reader;
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: AnimationFrame[] = [];
+
+  for (let i = 0; i < Math.min(reader.numFrames(), maxFrames); i++) {
+    const info = reader.frameInfo(i);
+    const previous = info.disposal === 3 ? canvas.slice() : null;
+
+    reader.decodeAndBlitFrameRGBA(i, canvas);
+    const image = await transform(createImageData(canvas, width, height));
+    // The canvas is drawn over by the next frame
+    frames.push({
+      image: image.data === canvas ? createImageData(canvas.slice(), width, height) : image,
+      delay: info.delay,
+    });
+
+    if (info.disposal === 2) {
+      // Restore to background: clear the frame's rectangle
+      for (let y = info.y; y < Math.min(info.y + info.height, height); y++) {
+        const start = (y * width + info.x) * 4;
+        canvas.fill(0, start, start + Math.min(info.width, width - info.x) * 4);
+      }
+    } else if (previous) {
+      canvas.set(previous);
+    }
+  }
+
+  return { frames, loopCount: reader.loopCount() ?? null };
+}
+
+// 6 red x 7 green x 6 blue levels plus a transparent entry, padded to 256
+const PALETTE_LEVELS = [6, 7, 6];
+const TRANSPARENT_INDEX = 252;
+const GIF_PALETTE = Array.from({ length: 256 }, (_, i) => {
+  if (i >= TRANSPARENT_INDEX) return 0;
+  const [r, g, b] = [Math.floor(i / 42), Math.floor(i / 6) % 7, i % 6];
+  const level = (value: number, levels: number) => Math.round((value * 255) / (levels - 1));
+  return (level(r, 6) << 16) | (level(g, 7) << 8) | level(b, 6);
+});
+// 4x4 Bayer matrix, hides the banding of the fixed palette
+const BAYER = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+// Palette indices as the plain array GifWriter takes
+function quantize(image: ImageData): number[] {
+  const { data, width, height } = image;
+  const indexed = new Array<number>(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (data[p * 4 + 3] < 128) {
+        indexed[p] = TRANSPARENT_INDEX;
+        continue;
+      }
+
+      const threshold = (BAYER[(y % 4) * 4 + (x % 4)] + 0.5) / 16 - 0.5;
+      const [r, g, b] = PALETTE_LEVELS.map((levels, c) => {
+        const scaled = (data[p * 4 + c] / 255) * (levels - 1) + threshold;
+        return Math.min(levels - 1, Math.max(0, Math.round(scaled)));
+      });
+      indexed[p] = r * 42 + g * 6 + b;
+    }
+  }
+
+  return indexed;
+}
+
+// GIF is the only animated format the bundled codecs can write
+export function encodeGifAnimation(animation: Animation): ArrayBuffer {
+  const { width, height } = animation.frames[0].image;
+  // LZW output stays under two bytes per pixel; headers need a little extra
+  const buffer = new Uint8Array(animation.frames.length * (width * height * 2 + 1024) + 2048);
+  const writer = new GifWriter(buffer, width, height, {
+    loop: animation.loopCount ?? undefined,
+  });
+
+  for (const frame of animation.frames) {
+    writer.addFrame(0, 0, width, height, quantize(frame.image), {
+      palette: GIF_PALETTE,
+      delay: frame.delay,
+      transparent: TRANSPARENT_INDEX,
+      // Full-canvas frames, so clear before the next one to keep transparency
+      disposal: 2,
+    });
+  }
+
+  return buffer.slice(0, writer.end()).buffer;
+}
+
+// The first frame of an animated WebP as a still WebP the decoder accepts.
+// Returns null for still images.
+function getFirstWebpFrame(buffer: ArrayBuffer): ArrayBuffer | null {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const fourcc = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = view.getUint32(offset + 4, true);
+    if (fourcc(offset) !== 'ANMF') {
+      offset += 8 + size + (size % 2);
+      continue;
+    }
+
+    // Frame header: x, y, width - 1, height - 1, duration (3 bytes each), flags
+    const header = offset + 8;
+    const frameEnd = Math.min(header + size, bytes.length);
+    const width = view.getUint32(header + 6, true) & 0xffffff;
+    const height = view.getUint32(header + 9, true) & 0xffffff;
+
+    const chunks: Uint8Array[] = [];
+    let hasAlpha = false;
+    for (let chunk = header + 16; chunk + 8 <= frameEnd; ) {
+      const chunkSize = view.getUint32(chunk + 4, true);
+      const type = fourcc(chunk);
+      if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+        hasAlpha ||= type === 'ALPH';
+        chunks.push(bytes.subarray(chunk, chunk + 8 + chunkSize + (chunkSize % 2)));
+      }
+      chunk += 8 + chunkSize + (chunkSize % 2);
+    }
+
+    // Alpha in a separate ALPH chunk needs the extended format header
+    if (hasAlpha) {
+      const vp8x = new Uint8Array(18);
+      vp8x.set([0x56, 0x50, 0x38, 0x58, 10, 0, 0, 0, 0x10]);
+      vp8x.set([width & 255, (width >> 8) & 255, width >> 16], 12);
+      vp8x.set([height & 255, (height >> 8) & 255, height >> 16], 15);
+      chunks.unshift(vp8x);
+    }
+
+    const length = chunks.reduce((total, chunk) => total + chunk.length, 0);
+    const output = new Uint8Array(12 + length);
+    const outputView = new DataView(output.buffer);
+    output.set(bytes.subarray(0, 4)); // RIFF
+    outputView.setUint32(4, 4 + length, true);
+    output.set(bytes.subarray(8, 12), 8); // WEBP
+    chunks.reduce((position, chunk) => (output.set(chunk, position), position + chunk.length), 12);
+    return output.buffer;
+  }
+
+  return null;
+}
+
+export async function decodeImage(buffer: ArrayBuffer, contentType: string): Promise<ImageData> {
+  await ensureInitialized();
+
+  switch (contentType) {
+    case 'image/jpeg':
+      return decodeJpeg(buffer);
+    case 'image/png':
+      return decodePng(buffer);
+    case 'image/webp':
+      // The still decoder doesn't read animations, so take their first frame
+      return decodeWebp(getFirstWebpFrame(buffer) || buffer);
+    case 'image/gif':
+      return decodeGif(buffer);
+    default:
+      throw new Error(`Unsupported image type for decoding: ${contentType}`);
+  }
+}
+
+export async function encodeImage(
+  image: ImageData,
+  format: ImageFormat,
+  quality: number,
+): Promise<ArrayBuffer> {
+  await ensureInitialized();
+
+  switch (format) {
+    case 'jpeg':
+      return encodeJpeg(image, { quality, progressive: true });
+    case 'png':
+      return encodePng(image);
+    case 'webp':
+      return encodeWebp(image, { quality });
+  }
+}
+
+export async function resizeImage(
+  image: ImageData,
+  width: number,
+  height: number,
+): Promise<ImageData> {
+  await ensureInitialized();
+  return resize(image, { width, height, method: 'lanczos3', premultiply: true, linearRGB: true });
+}
@@ -1,127 +1,165 @@
-import { ImageFetchError, ProcessedImage, ImageProcessingOptions, Env } from '../types';
+import {
+  ImageFetchError,
+  ImageLimitError,
+  ImageProbe,
+  ProcessedImage,
+  ImageProcessingOptions,
+  ImageFormat,
+  Env,
+} from '../types';
 import { getContentTypeFromUrl } from '../utils/validation';
+import { cropToAspectRatio, getOutputDimensions } from '../utils/imageData';
 import { parse } from 'file-type-mime';
-
-export class ImageService {
-  constructor(
-    private maxImageSize: number,
-    private allowedTypes: string[],
-    private env?: Env,
-  ) {}
-
-  async fetchImage(url: string): Promise<ArrayBuffer> {
-    try {
-      return await this.fetchImageDirect(url);
-    } catch (error) {
-      // If we have env and proxy secret, and it's a 403 error, try proxy
-      if (
-        this.env?.IMAGE_PROXY_SECRET &&
-        error instanceof ImageFetchError &&
-        error.statusCode === 403
-      ) {
-        console.log('403 error detected, attempting to fetch via proxy');
-        return await this.fetchImageViaProxy(url);
-      }
-      throw error;
-    }
+import { getStatusClass, incrementCounter, observeHistogram } from '../utils/metrics';
+import { getUrlPolicy, getUrlRejection, UrlPolicy } from '../utils/urlPolicy';
+import { getImageLimits, getLimitViolation, ImageLimits, probeImage } from '../utils/imageProbe';
+import { createLogger, errorFields, Logger } from '../utils/logger';
+import {
+  DEFAULT_FETCH_TIMEOUT,
+  FetchStrategy,
+  getFetchStrategies,
+  getProxySignatureHeaders,
+  getWorkerSecret,
+  orderStrategies,
+  shouldTryStrategy,
+} from '../utils/fetchStrategies';
+
+const DEFAULT_SIZE = 400;
+const DEFAULT_QUALITY = 80;
+// Every frame is decoded and kept in memory, so animations stay small
+const MAX_ANIMATED_SIZE = 256;
+const MAX_ANIMATED_FRAMES = 50;
+// Decoding composites onto a full-size canvas, plus a copy for frames that
+// restore the previous one; larger animations render their first frame
+const MAX_ANIMATED_SOURCE_PIXELS = 1024 * 1024;
+
+// Keep the source format when none is requested; GIFs become PNG since we don't encode GIF
+function getDefaultOutputFormat(contentType: string): ImageFormat {
+  switch (contentType) {
+    case 'image/jpeg':
+      return 'jpeg';
+    case 'image/webp':
+      return 'webp';
+    default:
+      return 'png';
   }
+}
 
-  private async fetchImageDirect(url: string): Promise<ArrayBuffer> {
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-      const response = await fetch(url, {
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'YestrFace/1.0 (Nostr Profile Picture Proxy)',
-        },
-      });
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const DEFAULT_HEADERS = { 'User-Agent': 'YestrFace/1.0 (Nostr Profile Picture Proxy)' };
 
-      clearTimeout(timeout);
+export interface FetchedImage {
+  buffer: ArrayBuffer;
+  // Name of the fetch strategy that downloaded it
+  strategy: string;
+}
 
-      if (!response.ok) {
-        throw new ImageFetchError(
-          `Failed to fetch image: ${response.status} ${response.statusText}`,
-          response.status,
-          url,
-        );
-      }
+// Codec errors come from images that are corrupt or that the codecs can't
+// handle, so they are reported as 422 like other unusable source images and
+// get the fallback avatar and failure backoff instead of a 500
+async function runCodec<T>(action: string, run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof ImageFetchError) throw error;
+    throw rejectImage(
+      new ImageFetchError(
+        `Failed to ${action}: ${error instanceof Error ? error.message : error}`,
+        422,
+      ),
+    );
+  }
+}
 
-      // Check content type
-      let contentType = response.headers.get('content-type');
+// Counts a source image refused before or during decoding, by whether it
+// broke a limit or couldn't be read
+function rejectImage(error: ImageFetchError): ImageFetchError {
+  const reason = error instanceof ImageLimitError ? 'limit' : 'invalid';
+  incrementCounter('yestr_image_rejections_total', { reason });
+  return error;
+}
 
-      // If content type is missing or not allowed, try to infer from URL
-      if (!contentType || !this.allowedTypes.includes(contentType)) {
-        const urlBasedContentType = getContentTypeFromUrl(url);
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
 
-        // If we can determine content type from URL and it's allowed, use it
-        if (urlBasedContentType && this.allowedTypes.includes(urlBasedContentType)) {
-          contentType = urlBasedContentType;
-        } else {
-          // Otherwise, throw an error with the original content type
-          throw new ImageFetchError(`Invalid content type: ${contentType || 'unknown'}`, 415, url);
-        }
-      }
+export class ImageService {
+  private urlPolicy: UrlPolicy;
+  private limits: ImageLimits;
+  private strategies: FetchStrategy[];
 
-      // Check content length
-      const contentLength = response.headers.get('content-length');
-      if (contentLength && parseInt(contentLength) > this.maxImageSize) {
-        throw new ImageFetchError(`Image too large: ${contentLength} bytes`, 413, url);
-      }
+  constructor(
+    private maxImageSize: number,
+    private allowedTypes: string[],
+    private env?: Env,
+    private logger: Logger = createLogger(env),
+  ) {
+    this.urlPolicy = getUrlPolicy(env);
+    this.limits = getImageLimits(env);
+    this.strategies = getFetchStrategies(env, logger);
+  }
 
-      const buffer = await response.arrayBuffer();
+  async fetchImage(url: string, preferredStrategy?: string): Promise<FetchedImage> {
+    const startTime = Date.now();
+    this.logger.set({ upstreamHost: getHostname(url) });
 
-      // Double check size after download
-      if (buffer.byteLength > this.maxImageSize) {
-        throw new ImageFetchError(
-          `Image too large after download: ${buffer.byteLength} bytes`,
-          413,
-          url,
-        );
-      }
+    const rejection = getUrlRejection(url, this.urlPolicy);
+    if (rejection) {
+      // Not a 403, which would retry the URL with another strategy
+      throw new ImageFetchError(`Refusing to fetch ${url}: ${rejection}`, 400, url);
+    }
 
-      // Check if we received HTML instead of an image
-      const bytes = new Uint8Array(buffer).slice(0, 20);
-      const isHtml =
-        bytes[0] === 0x3c && // <
-        (bytes[1] === 0x68 || bytes[1] === 0x48) && // h or H
-        (bytes[2] === 0x74 || bytes[2] === 0x54) && // t or T
-        (bytes[3] === 0x6d || bytes[3] === 0x4d) && // m or M
-        (bytes[4] === 0x6c || bytes[4] === 0x4c); // l or L
-
-      if (isHtml) {
-        const htmlContent = new TextDecoder().decode(buffer);
-        console.error('Received HTML instead of image:', htmlContent);
-
-        // Check for common bot protection systems
-        if (htmlContent.includes('sgcaptcha') || htmlContent.includes('/.well-known/sgcaptcha/')) {
-          throw new ImageFetchError(
-            'Image blocked by SiteGround CAPTCHA protection. This domain requires browser verification.',
-            403,
-            url,
-          );
+    let lastError: unknown;
+    try {
+      for (const strategy of orderStrategies(this.strategies, preferredStrategy)) {
+        if (!shouldTryStrategy(strategy, lastError)) continue;
+        if (lastError !== undefined) {
+          this.logger.info('Retrying image fetch', { strategy: strategy.name });
+          incrementCounter('yestr_fetch_fallbacks_total', { strategy: strategy.name });
         }
 
-        if (
-          htmlContent.includes('cf-browser-verification') ||
-          htmlContent.includes('Checking your browser')
-        ) {
-          throw new ImageFetchError(
-            'Image blocked by Cloudflare browser verification. This domain requires browser verification.',
-            403,
-            url,
-          );
+        const attemptStart = Date.now();
+        try {
+          const buffer = await this.fetchWithStrategy(url, strategy);
+          this.logger.info('Fetched source image', {
+            strategy: strategy.name,
+            bytes: buffer.byteLength,
+            durationMs: Date.now() - attemptStart,
+          });
+          return { buffer, strategy: strategy.name };
+        } catch (error) {
+          this.logger.warn('Source image fetch failed', {
+            strategy: strategy.name,
+            durationMs: Date.now() - attemptStart,
+            ...errorFields(error),
+          });
+          incrementCounter('yestr_upstream_failures_total', {
+            class: getStatusClass(error instanceof ImageFetchError ? error.statusCode : undefined),
+          });
+          lastError = error;
         }
-
-        throw new ImageFetchError(
-          `Server returned HTML instead of image (${buffer.byteLength} bytes). The image host may be blocking automated requests.`,
-          403,
-          url,
-        );
       }
+      throw lastError;
+    } finally {
+      observeHistogram('yestr_upstream_latency_seconds', (Date.now() - startTime) / 1000);
+    }
+  }
 
-      return buffer;
+  private async fetchWithStrategy(url: string, strategy: FetchStrategy): Promise<ArrayBuffer> {
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      strategy.timeoutMs ?? DEFAULT_FETCH_TIMEOUT,
+    );
+
+    try {
+      const response = await this.requestWithStrategy(url, strategy, controller.signal);
+      // Proxies don't always pass the upstream content type through
+      return await this.readImageResponse(url, response, strategy.type !== 'proxy');
     } catch (error) {
       if (error instanceof ImageFetchError) {
         throw error;
@@ -129,132 +167,302 @@ export class ImageService {
 
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
-          throw new ImageFetchError('Image fetch timeout', 504, url);
+          throw new ImageFetchError('Image fetch timeout', 504, url, 'timeout');
         }
         throw new ImageFetchError(`Failed to fetch image: ${error.message}`, 500, url);
       }
 
       throw new ImageFetchError('Unknown error fetching image', 500, url);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async requestWithStrategy(
+    url: string,
+    strategy: FetchStrategy,
+    signal: AbortSignal,
+  ): Promise<Response> {
+    const headers = { ...DEFAULT_HEADERS, ...strategy.headers };
+
+    switch (strategy.type) {
+      case 'proxy': {
+        const secret = getWorkerSecret(this.env, strategy.secret);
+        if (!secret) {
+          throw new ImageFetchError(`Proxy secret ${strategy.secret} not configured`, 500, url);
+        }
+
+        const proxyUrl = new URL(strategy.url);
+        proxyUrl.searchParams.set('url', url);
+        if (strategy.legacySecret) {
+          proxyUrl.searchParams.set('secret', secret);
+        }
+        return fetch(proxyUrl.toString(), {
+          signal,
+          headers: { ...headers, ...(await getProxySignatureHeaders(secret, url)) },
+        });
+      }
+      case 'archive':
+        return this.fetchFollowingRedirects(`${strategy.url}${url}`, signal, headers);
+      default:
+        return this.fetchFollowingRedirects(url, signal, headers);
     }
   }
 
-  private async fetchImageViaProxy(url: string): Promise<ArrayBuffer> {
-    if (!this.env?.IMAGE_PROXY_SECRET) {
-      throw new ImageFetchError('Proxy secret not configured', 500, url);
+  private async readImageResponse(
+    url: string,
+    response: Response,
+    checkContentType: boolean,
+  ): Promise<ArrayBuffer> {
+    if (!response.ok) {
+      throw new ImageFetchError(
+        `Failed to fetch image: ${response.status} ${response.statusText}`,
+        response.status,
+        url,
+      );
     }
 
-    const proxyUrl = new URL('https://relay.yestr.social/proxy-image');
-    proxyUrl.searchParams.set('url', url);
-    proxyUrl.searchParams.set('secret', this.env.IMAGE_PROXY_SECRET);
+    // Check content type
+    let contentType = response.headers.get('content-type');
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 15000); // 15 second timeout for proxy
+    // If content type is missing or not allowed, try to infer from URL
+    if (checkContentType && (!contentType || !this.allowedTypes.includes(contentType))) {
+      const urlBasedContentType = getContentTypeFromUrl(url);
 
-    try {
-      const response = await fetch(proxyUrl.toString(), {
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'YestrFace/1.0 (https://yestr.social)',
-        },
-      });
+      // If we can determine content type from URL and it's allowed, use it
+      if (urlBasedContentType && this.allowedTypes.includes(urlBasedContentType)) {
+        contentType = urlBasedContentType;
+      } else {
+        // Otherwise, throw an error with the original content type
+        throw new ImageFetchError(`Invalid content type: ${contentType || 'unknown'}`, 415, url);
+      }
+    }
 
-      clearTimeout(timeout);
+    // Check content length
+    const contentLength = response.headers.get('content-length');
+    if (contentLength && parseInt(contentLength) > this.maxImageSize) {
+      throw new ImageFetchError(`Image too large: ${contentLength} bytes`, 413, url);
+    }
+
+    const buffer = await response.arrayBuffer();
 
-      if (!response.ok) {
+    // Double check size after download
+    if (buffer.byteLength > this.maxImageSize) {
+      throw new ImageFetchError(
+        `Image too large after download: ${buffer.byteLength} bytes`,
+        413,
+        url,
+      );
+    }
+
+    // Check if we received HTML instead of an image
+    const bytes = new Uint8Array(buffer).slice(0, 20);
+    const isHtml =
+      bytes[0] === 0x3c && // <
+      (bytes[1] === 0x68 || bytes[1] === 0x48) && // h or H
+      (bytes[2] === 0x74 || bytes[2] === 0x54) && // t or T
+      (bytes[3] === 0x6d || bytes[3] === 0x4d) && // m or M
+      (bytes[4] === 0x6c || bytes[4] === 0x4c); // l or L
+
+    if (isHtml) {
+      const htmlContent = new TextDecoder().decode(buffer);
+      this.logger.warn('Received HTML instead of image', { bytes: buffer.byteLength });
+
+      // Check for common bot protection systems
+      if (htmlContent.includes('sgcaptcha') || htmlContent.includes('/.well-known/sgcaptcha/')) {
         throw new ImageFetchError(
-          `Proxy failed to fetch image: ${response.status} ${response.statusText}`,
-          response.status,
+          'Image blocked by SiteGround CAPTCHA protection. This domain requires browser verification.',
+          403,
           url,
+          'html',
         );
       }
 
-      const buffer = await response.arrayBuffer();
-
-      // Validate size
-      if (buffer.byteLength > this.maxImageSize) {
+      if (
+        htmlContent.includes('cf-browser-verification') ||
+        htmlContent.includes('Checking your browser')
+      ) {
         throw new ImageFetchError(
-          `Image too large from proxy: ${buffer.byteLength} bytes`,
-          413,
+          'Image blocked by Cloudflare browser verification. This domain requires browser verification.',
+          403,
           url,
+          'html',
         );
       }
 
-      return buffer;
-    } catch (error) {
-      clearTimeout(timeout);
+      throw new ImageFetchError(
+        `Server returned HTML instead of image (${buffer.byteLength} bytes). The image host may be blocking automated requests.`,
+        403,
+        url,
+        'html',
+      );
+    }
 
-      if (error instanceof ImageFetchError) {
-        throw error;
+    return buffer;
+  }
+
+  // Follows redirects by hand so every hop is checked against the URL policy
+  private async fetchFollowingRedirects(
+    url: string,
+    signal: AbortSignal,
+    headers: Record<string, string>,
+  ): Promise<Response> {
+    let current = url;
+
+    for (let hop = 0; ; hop++) {
+      const rejection = getUrlRejection(current, this.urlPolicy);
+      if (rejection) {
+        throw new ImageFetchError(`Refusing to fetch ${current}: ${rejection}`, 400, url);
       }
 
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new ImageFetchError('Proxy fetch timeout', 504, url);
-        }
-        throw new ImageFetchError(`Proxy failed to fetch image: ${error.message}`, 500, url);
+      const response = await fetch(current, { signal, redirect: 'manual', headers });
+
+      const location = response.headers.get('Location');
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+        return response;
       }
 
-      throw new ImageFetchError('Unknown error fetching image via proxy', 500, url);
+      if (hop >= this.urlPolicy.maxRedirects) {
+        throw new ImageFetchError(
+          `Too many redirects (more than ${this.urlPolicy.maxRedirects})`,
+          502,
+          url,
+        );
+      }
+
+      await response.body?.cancel();
+      current = new URL(location, current).toString();
     }
   }
 
   async validateImage(buffer: ArrayBuffer): Promise<string> {
-    // Debug logging
-    const bytes = new Uint8Array(buffer).slice(0, 16);
-    console.log('Buffer size:', buffer.byteLength);
-    console.log(
-      'First 16 bytes:',
-      Array.from(bytes)
-        .map((b) => b.toString(16).padStart(2, '0'))
-        .join(' '),
-    );
-
     // Use file-type-mime library for robust file type detection
     const result = parse(buffer);
-
-    console.log('file-type-mime result:', result);
+    this.logger.debug('Detected image type', {
+      mime: result?.mime ?? null,
+      bytes: buffer.byteLength,
+    });
 
     if (!result) {
-      throw new Error('Unknown or invalid image format');
+      throw rejectImage(new ImageFetchError('Unknown or invalid image format', 422));
     }
 
     // Check if it's an image type
     if (!result.mime.startsWith('image/')) {
-      throw new Error('Not an image file');
+      throw rejectImage(new ImageFetchError('Not an image file', 422));
     }
 
     return result.mime;
   }
 
-  // Basic image processing (no actual resizing in this MVP)
-  // In production, you'd use Cloudflare Image Resizing or a WASM library
+  // Reads the declared size from the headers and rejects images too large to
+  // decode safely, with 422 so they aren't mistaken for oversized downloads (413)
+  probeImage(buffer: ArrayBuffer, url?: string): ImageProbe {
+    const probe = probeImage(buffer);
+    if (!probe) {
+      throw rejectImage(new ImageFetchError('Could not read image dimensions', 422, url));
+    }
+
+    const violation = getLimitViolation(probe, this.limits);
+    if (violation) {
+      throw rejectImage(new ImageLimitError(violation, url));
+    }
+
+    return probe;
+  }
+
+  // Decode, center-crop to the target aspect ratio, downscale and re-encode.
+  // Images are never upscaled, so the reported dimensions may be smaller than requested.
   async processImage(
     buffer: ArrayBuffer,
     options: ImageProcessingOptions,
   ): Promise<ProcessedImage> {
-    const contentType = await this.validateImage(buffer);
+    const sourceType = await this.validateImage(buffer);
+    const probe = this.probeImage(buffer);
+    // Only GIF can be decoded frame by frame; animated WebP and APNG render
+    // their first frame
+    if (
+      options.animated &&
+      probe.frames > 1 &&
+      sourceType === 'image/gif' &&
+      probe.width * probe.height <= MAX_ANIMATED_SOURCE_PIXELS
+    ) {
+      return this.processAnimation(buffer, options);
+    }
+
+    const format = options.format || getDefaultOutputFormat(sourceType);
+    const targetWidth = options.width || DEFAULT_SIZE;
+    const targetHeight = options.height || targetWidth;
+
+    // Loaded lazily so the wasm codecs only enter isolates that actually process images
+    const { decodeImage, encodeImage, resizeImage } = await import('./codecs');
+
+    const image = await runCodec(`decode ${sourceType}`, () => decodeImage(buffer, sourceType));
+
+    const cropped = cropToAspectRatio(image, targetWidth / targetHeight);
+    const { width, height } = getOutputDimensions(
+      cropped.width,
+      cropped.height,
+      targetWidth,
+      targetHeight,
+    );
+    const output = await runCodec(`encode ${format}`, async () => {
+      const resized =
+        width === cropped.width && height === cropped.height
+          ? cropped
+          : await resizeImage(cropped, width, height);
+      return encodeImage(resized, format, options.quality || DEFAULT_QUALITY);
+    });
 
-    // For MVP, we just return the original image
-    // In production, implement actual resizing/conversion
     return {
-      buffer,
-      contentType,
-      width: options.width || 400,
-      height: options.height || 400,
-      size: buffer.byteLength,
+      buffer: output,
+      contentType: `image/${format}`,
+      format,
+      width,
+      height,
+      size: output.byteLength,
     };
   }
 
-  generateR2Key(pubkey: string, size?: number, format?: string): string {
-    const parts = ['avatars', pubkey];
+  // Crops and downscales every frame of a GIF and encodes them as a GIF, the
+  // only animated format the bundled codecs can write
+  private async processAnimation(
+    buffer: ArrayBuffer,
+    options: ImageProcessingOptions,
+  ): Promise<ProcessedImage> {
+    const targetWidth = Math.min(options.width || DEFAULT_SIZE, MAX_ANIMATED_SIZE);
+    const targetHeight = Math.min(options.height || targetWidth, MAX_ANIMATED_SIZE);
+
+    const { decodeGifAnimation, encodeGifAnimation, resizeImage } = await import('./codecs');
+
+    // Every frame has the canvas size, so they all share the output size
+    let width = 0;
+    let height = 0;
+    const animation = await runCodec('decode image/gif', () =>
+      decodeGifAnimation(buffer, MAX_ANIMATED_FRAMES, async (frame) => {
+        const cropped = cropToAspectRatio(frame, targetWidth / targetHeight);
+        ({ width, height } = getOutputDimensions(
+          cropped.width,
+          cropped.height,
+          targetWidth,
+          targetHeight,
+        ));
+        return width === cropped.width && height === cropped.height
+          ? cropped
+          : resizeImage(cropped, width, height);
+      }),
+    );
 
-    if (size && format) {
-      parts.push(`${size}x${size}.${format}`);
-    } else {
-      parts.push('original');
-    }
+    const output = await runCodec('encode gif', async () => encodeGifAnimation(animation));
 
-    return parts.join('/');
+    return {
+      buffer: output,
+      contentType: 'image/gif',
+      format: 'gif',
+      width,
+      height,
+      size: output.byteLength,
+    };
   }
 
   getImageHeaders(contentType: string, etag?: string): Headers {
@@ -0,0 +1,223 @@
+import {
+  CachedImage,
+  ImageFetchError,
+  ImageVariant,
+  NostrProfile,
+  ProcessedImage,
+  ProfileMetadata,
+  ProfileNotFoundError,
+} from '../types';
+import { ImageService } from './image';
+import { StorageService } from './storage';
+import {
+  getCachedVariants,
+  getOriginalR2Key,
+  getVariantEtag,
+  getVariantR2Key,
+} from '../utils/cache';
+import { sha256Hex } from '../utils/hash';
+import { isValidImageUrl } from '../utils/validation';
+import { createLogger, Logger } from '../utils/logger';
+
+// Metadata writes queued per pubkey. Every job for a profile runs in its
+// FetchCoordinator when one is bound, so this orders all of them; a job for
+// another variant of the same profile would otherwise overwrite its entry.
+const metadataUpdates = new Map<string, Promise<unknown>>();
+
+function serializeUpdate<T>(pubkey: string, update: () => Promise<T>): Promise<T> {
+  const previous = metadataUpdates.get(pubkey) || Promise.resolve();
+  const result = previous.then(update, update);
+  const settled = result.catch(() => undefined);
+  metadataUpdates.set(pubkey, settled);
+  settled.then(() => {
+    if (metadataUpdates.get(pubkey) === settled) metadataUpdates.delete(pubkey);
+  });
+  return result;
+}
+
+export interface StoredVariant {
+  processedImage: ProcessedImage;
+  cachedImage: CachedImage;
+  metadata: ProfileMetadata;
+}
+
+// Downloads a profile's picture or banner, renders one variant of it into R2
+// and records the result in the profile metadata.
+export class ImagePipeline {
+  constructor(
+    private storage: StorageService,
+    private imageService: ImageService,
+    private logger: Logger = createLogger(),
+  ) {}
+
+  async processVariant(
+    profile: NostrProfile,
+    variant: ImageVariant,
+    metadata: ProfileMetadata | null,
+    // Download the source again even when its URL is unchanged, e.g. for a new
+    // version of the profile that may point at replaced bytes
+    refreshSource = false,
+  ): Promise<StoredVariant> {
+    const { kind, pubkey, width, height, format, animated, cacheKey } = variant;
+    const sourceUrl = kind === 'banner' ? profile.banner : profile.picture;
+
+    if (!sourceUrl) {
+      throw new ProfileNotFoundError(pubkey);
+    }
+
+    if (!isValidImageUrl(sourceUrl)) {
+      const field = kind === 'banner' ? 'banner' : 'picture';
+      throw new ImageFetchError(`Invalid profile ${field} URL`, 400, sourceUrl);
+    }
+
+    const knownSource = refreshSource
+      ? null
+      : await this.loadKnownSource(metadata, kind, sourceUrl);
+    // Starts with the strategy that worked last time, e.g. the proxy for a host
+    // known to block direct requests
+    const { buffer: imageBuffer, strategy } =
+      knownSource ||
+      (await this.imageService.fetchImage(
+        sourceUrl,
+        kind === 'banner' ? metadata?.bannerFetchStrategy : metadata?.fetchStrategy,
+      ));
+    const probe = this.imageService.probeImage(imageBuffer, sourceUrl);
+    const sourceHash = await sha256Hex(imageBuffer);
+    const r2Key = getVariantR2Key(sourceHash, width, height, format, animated);
+    const etag = getVariantEtag(sourceHash, width, height, format, animated);
+
+    // Another profile with the same picture, or an earlier fetch, may have rendered it already
+    let stored = await this.loadStoredVariant(r2Key);
+    if (!stored) {
+      const startTime = Date.now();
+      const processedImage = await this.imageService.processImage(imageBuffer, {
+        width,
+        height,
+        format: format,
+        animated,
+      });
+      this.logger.info('Rendered variant', {
+        cacheKey,
+        format: processedImage.format,
+        bytes: processedImage.size,
+        durationMs: Date.now() - startTime,
+      });
+
+      await this.storeOriginal(sourceHash, imageBuffer);
+      await this.storage.putImage(
+        r2Key,
+        processedImage.buffer,
+        { contentType: processedImage.contentType },
+        {
+          format: processedImage.format,
+          width: processedImage.width.toString(),
+          height: processedImage.height.toString(),
+        },
+      );
+      stored = { processedImage, lastModified: Date.now() };
+    }
+    const { processedImage } = stored;
+
+    const cachedImage: CachedImage = {
+      key: r2Key,
+      contentType: processedImage.contentType,
+      etag,
+      lastModified: stored.lastModified,
+      hash: sourceHash,
+    };
+
+    const newMetadata = await serializeUpdate(pubkey, async () => {
+      // Merge into what's stored now rather than what the job started with;
+      // other variants may have been written while this one rendered
+      const latest = (await this.storage.getProfileMetadata(pubkey)) || {
+        pubkey,
+        originalUrl: profile.picture || '',
+        sizes: {},
+        fetchedAt: Date.now(),
+        profileUpdatedAt: profile.created_at * 1000,
+      };
+
+      // A new source image invalidates every variant rendered from the old one,
+      // including when the bytes behind an unchanged URL were replaced
+      if (kind === 'banner') {
+        if (latest.bannerUrl !== sourceUrl) latest.banners = {};
+        latest.bannerUrl = sourceUrl;
+        latest.bannerImage = probe;
+        if (strategy) latest.bannerFetchStrategy = strategy;
+      } else {
+        if (latest.originalUrl !== sourceUrl) latest.sizes = {};
+        latest.originalUrl = sourceUrl;
+        latest.originalImage = probe;
+        if (strategy) latest.fetchStrategy = strategy;
+      }
+
+      const variants = getCachedVariants(latest, kind);
+      for (const [key, image] of Object.entries(variants)) {
+        if (image.hash && image.hash !== sourceHash) delete variants[key];
+      }
+      variants[cacheKey] = cachedImage;
+
+      latest.fetchedAt = Date.now();
+      latest.profileUpdatedAt = Math.max(latest.profileUpdatedAt, profile.created_at * 1000);
+      if (profile.relay) {
+        latest.profileRelay = profile.relay;
+      }
+      latest.failureCount = 0;
+      delete latest.lastError;
+
+      await this.storage.putProfileMetadata(latest);
+      return latest;
+    });
+
+    return { processedImage, cachedImage, metadata: newMetadata };
+  }
+
+  // The stored original for a source URL that hasn't changed since it was
+  // last downloaded, so rendering another variant doesn't fetch it again
+  private async loadKnownSource(
+    metadata: ProfileMetadata | null,
+    kind: ImageVariant['kind'],
+    sourceUrl: string,
+  ): Promise<{ buffer: ArrayBuffer; strategy?: string } | null> {
+    const knownUrl = kind === 'banner' ? metadata?.bannerUrl : metadata?.originalUrl;
+    if (!metadata || knownUrl !== sourceUrl) return null;
+
+    const hash = Object.values(getCachedVariants(metadata, kind)).find((image) => image.hash)?.hash;
+    if (!hash) return null;
+
+    const object = await this.storage.getImage(getOriginalR2Key(hash));
+    if (!object) return null;
+
+    this.logger.debug('Reusing stored source image', { hash });
+    return { buffer: await object.arrayBuffer() };
+  }
+
+  private async loadStoredVariant(
+    key: string,
+  ): Promise<{ processedImage: ProcessedImage; lastModified: number } | null> {
+    const object = await this.storage.getImage(key);
+    if (!object) return null;
+
+    const buffer = await object.arrayBuffer();
+    const { format, width, height } = object.customMetadata || {};
+
+    return {
+      processedImage: {
+        buffer,
+        contentType: object.httpMetadata?.contentType || `image/${format}`,
+        format: format as ProcessedImage['format'],
+        width: parseInt(width),
+        height: parseInt(height),
+        size: buffer.byteLength,
+      },
+      lastModified: object.uploaded.getTime(),
+    };
+  }
+
+  private async storeOriginal(sourceHash: string, buffer: ArrayBuffer): Promise<void> {
+    const key = getOriginalR2Key(sourceHash);
+    if (await this.storage.headImage(key)) return;
+
+    await this.storage.putImage(key, buffer);
+  }
+}
@@ -0,0 +1,105 @@
+import { nip05 } from 'nostr-tools';
+import { Nip05Record } from '../types';
+import { StorageService } from './storage';
+import { sanitizeRelayHints, validatePubkey } from '../utils/validation';
+import { createLogger, errorFields, Logger } from '../utils/logger';
+import { getUrlPolicy, getUrlRejection, UrlPolicy } from '../utils/urlPolicy';
+
+const RESOLVED_TTL = 86400; // 1 day
+const NOT_FOUND_TTL = 300; // 5 minutes
+
+export class Nip05Service {
+  constructor(
+    private storage: StorageService,
+    // The domain is chosen by whoever asks, so it must pass the outbound policy
+    private urlPolicy: UrlPolicy = getUrlPolicy(),
+    private logger: Logger = createLogger(),
+  ) {}
+
+  // Resolve name@domain to a hex pubkey through /.well-known/nostr.json.
+  // Returns null if the name doesn't exist or the domain can't be reached.
+  async resolve(identifier: string): Promise<Nip05Record | null> {
+    const normalized = identifier.toLowerCase();
+
+    const cached = await this.storage.getNip05Record(normalized);
+    if (cached) {
+      return cached.pubkey ? cached : null;
+    }
+
+    const match = normalized.match(nip05.NIP05_REGEX);
+    if (!match) {
+      return null;
+    }
+
+    const [, name = '_', domain] = match;
+    const names = await this.fetchWellKnown(domain, name);
+
+    // Don't cache transport failures, the domain may be back on the next request
+    if (!names) {
+      return null;
+    }
+
+    const pubkey = names.names?.[name];
+    const record: Nip05Record = {
+      identifier: normalized,
+      pubkey: typeof pubkey === 'string' && validatePubkey(pubkey) ? pubkey.toLowerCase() : null,
+      relays: [],
+      resolvedAt: Date.now(),
+    };
+
+    if (record.pubkey) {
+      const relays = names.relays?.[record.pubkey];
+      if (Array.isArray(relays)) {
+        record.relays = sanitizeRelayHints(relays);
+      }
+    }
+
+    await this.storage.putNip05Record(record, record.pubkey ? RESOLVED_TTL : NOT_FOUND_TTL);
+
+    return record.pubkey ? record : null;
+  }
+
+  private async fetchWellKnown(
+    domain: string,
+    name: string,
+  ): Promise<{ names?: Record<string, string>; relays?: Record<string, string[]> } | null> {
+    const url = `https://${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`;
+    const rejection = getUrlRejection(url, this.urlPolicy);
+    if (rejection) {
+      this.logger.warn('Refusing NIP-05 lookup', { nip05: `${name}@${domain}`, reason: rejection });
+      // Cached as not found, the domain won't become acceptable
+      return {};
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+        redirect: 'manual',
+        headers: {
+          Accept: 'application/json',
+          'User-Agent': 'YestrFace/1.0 (Nostr Profile Picture Proxy)',
+        },
+      });
+
+      // Redirects are disallowed by NIP-05; treat them like a missing name
+      if (response.status !== 200) {
+        return response.status === 404 || (response.status >= 300 && response.status < 400)
+          ? {}
+          : null;
+      }
+
+      return await response.json();
+    } catch (error) {
+      this.logger.warn('NIP-05 lookup failed', {
+        nip05: `${name}@${domain}`,
+        ...errorFields(error),
+      });
+      return null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
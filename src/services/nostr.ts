@@ -1,24 +1,113 @@
-import { NostrEvent, NostrProfile } from '../types';
-import { validateEvent, getPublicKey } from 'nostr-tools';
+import { Env, NostrEvent, NostrProfile, RelayHealth } from '../types';
+import { Filter, matchFilters, validateEvent, verifyEvent } from 'nostr-tools';
+import { isValidRelayUrl } from '../utils/validation';
+import { createLogger, errorFields, Logger } from '../utils/logger';
+import { getUrlPolicy, getUrlRejection, UrlPolicy } from '../utils/urlPolicy';
+import { incrementCounter } from '../utils/metrics';
+
+// Max NIP-65 write relays queried in addition to the configured ones
+const MAX_OUTBOX_RELAYS = 3;
+
+// RELAY_URLS is a comma-separated list; RELAY_URL stays the primary relay
+export function getConfiguredRelays(env: Pick<Env, 'RELAY_URL' | 'RELAY_URLS'>): string[] {
+  const relays = [env.RELAY_URL, ...(env.RELAY_URLS || '').split(',')]
+    .map((relay) => relay.trim())
+    .filter(Boolean);
+  return [...new Set(relays)];
+}
+
+// Newest event wins; ties go to the lowest event id as NIP-01 specifies for replaceable events
+export function isNewerEvent(candidate: NostrEvent, current: NostrEvent | null): boolean {
+  if (!current) return true;
+  if (candidate.created_at !== current.created_at) {
+    return candidate.created_at > current.created_at;
+  }
+  return candidate.id < current.id;
+}
+
+export function parseProfileEvent(
+  event: NostrEvent,
+  relay?: string,
+  logger: Logger = createLogger(),
+): NostrProfile | null {
+  try {
+    const content = JSON.parse(event.content);
+    if (!content || typeof content !== 'object' || Array.isArray(content)) {
+      logger.warn('Profile content is not an object', { eventId: event.id });
+      return null;
+    }
+
+    // Fields from the signed event win over anything the content claims,
+    // e.g. a `pubkey` naming another profile
+    return {
+      ...content,
+      pubkey: event.pubkey,
+      created_at: event.created_at,
+      relay,
+    };
+  } catch (error) {
+    logger.warn('Error parsing profile content', { eventId: event.id, ...errorFields(error) });
+    return null;
+  }
+}
+
+// Write relays from a NIP-65 relay list: `r` tags without a marker or marked "write"
+export function getWriteRelays(event: NostrEvent): string[] {
+  return event.tags
+    .filter((tag) => tag[0] === 'r' && tag[1] && (!tag[2] || tag[2] === 'write'))
+    .map((tag) => tag[1].trim())
+    .filter(isValidRelayUrl);
+}
+
+// Why an event from the relay can't be trusted, or null if it can
+export function getEventRejection(event: NostrEvent, filters: Filter[]): string | null {
+  if (!validateEvent(event)) return 'malformed event';
+  if (!matchFilters(filters, event)) return 'event does not match subscription filter';
+  if (!verifyEvent(event)) return 'invalid id or signature';
+  return null;
+}
+
+interface Subscription {
+  filters: Filter[];
+  onEvent: (event: NostrEvent) => void;
+  onEose?: () => void;
+}
 
 export class NostrService {
   private ws: WebSocket | null = null;
-  private subscriptions = new Map<string, (event: NostrEvent) => void>();
+  private subscriptions = new Map<string, Subscription>();
+  private rejectedEvents = 0;
+
+  constructor(
+    private relayUrl: string,
+    private logger: Logger = createLogger(),
+  ) {}
+
+  get url(): string {
+    return this.relayUrl;
+  }
 
-  constructor(private relayUrl: string) {}
+  // Number of events dropped because they failed verification
+  get rejectedCount(): number {
+    return this.rejectedEvents;
+  }
 
-  async connect(): Promise<void> {
+  async connect(timeoutMs: number = 5000): Promise<void> {
+    const startTime = Date.now();
     return new Promise((resolve, reject) => {
       try {
         this.ws = new WebSocket(this.relayUrl);
 
         this.ws.addEventListener('open', () => {
-          console.log(`Connected to relay: ${this.relayUrl}`);
+          this.logger.debug('Connected to relay', {
+            relay: this.relayUrl,
+            durationMs: Date.now() - startTime,
+          });
           resolve();
         });
 
         this.ws.addEventListener('error', (error) => {
-          console.error('WebSocket error:', error);
+          this.logger.warn('WebSocket error', { relay: this.relayUrl, ...errorFields(error) });
           reject(error);
         });
 
@@ -26,12 +115,12 @@ export class NostrService {
           this.handleMessage(event.data);
         });
 
-        // Set timeout for connection
+        // Set timeout
         setTimeout(() => {
           if (this.ws?.readyState !== WebSocket.OPEN) {
             reject(new Error('WebSocket connection timeout'));
           }
-        }, 5000);
+        }, timeoutMs);
       } catch (error) {
         reject(error);
       }
@@ -46,97 +135,79 @@ export class NostrService {
     this.subscriptions.clear();
   }
 
-  async fetchProfile(pubkey: string): Promise<NostrProfile | null> {
+  // Opens a subscription on the connected relay. Only events that pass
+  // verification against the filters reach onEvent.
+  subscribe(
+    subId: string,
+    filters: Filter[],
+    onEvent: (event: NostrEvent) => void,
+    onEose?: () => void,
+  ): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      await this.connect();
+      throw new Error(`Not connected to relay: ${this.relayUrl}`);
     }
 
-    return new Promise((resolve) => {
-      const subId = `profile_${pubkey}_${Date.now()}`;
-      let profile: NostrProfile | null = null;
-
-      // Set timeout
-      const timeout = setTimeout(() => {
-        this.unsubscribe(subId);
-        resolve(profile);
-      }, 3000);
-
-      // Subscribe to profile events
-      this.subscriptions.set(subId, (event: NostrEvent) => {
-        if (event.kind === 0 && event.pubkey === pubkey) {
-          try {
-            const content = JSON.parse(event.content);
-            profile = {
-              pubkey: event.pubkey,
-              ...content,
-              created_at: event.created_at,
-            };
-          } catch (error) {
-            console.error('Error parsing profile content:', error);
-          }
-        }
-      });
+    this.subscriptions.set(subId, { filters, onEvent, onEose });
+    this.ws.send(JSON.stringify(['REQ', subId, ...filters]));
+  }
 
-      // Send subscription request
-      const req = JSON.stringify([
-        'REQ',
-        subId,
-        {
-          kinds: [0],
-          authors: [pubkey],
-          limit: 1,
-        },
-      ]);
-
-      this.ws!.send(req);
-    });
+  unsubscribe(subId: string): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      const close = JSON.stringify(['CLOSE', subId]);
+      this.ws.send(close);
+    }
+    this.subscriptions.delete(subId);
   }
 
-  async fetchMultipleProfiles(pubkeys: string[]): Promise<Map<string, NostrProfile>> {
+  // Collect stored events matching the filters until EOSE or the timeout.
+  // `eose` tells whether the relay finished sending before the timeout.
+  async query(
+    filters: Filter[],
+    timeoutMs: number = 3000,
+  ): Promise<{ events: NostrEvent[]; eose: boolean }> {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       await this.connect();
     }
 
     return new Promise((resolve) => {
-      const profiles = new Map<string, NostrProfile>();
-      const subId = `profiles_batch_${Date.now()}`;
+      const subId = `events_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      const events: NostrEvent[] = [];
 
-      // Set timeout
-      const timeout = setTimeout(() => {
+      const finish = (eose: boolean) => {
+        clearTimeout(timeout);
         this.unsubscribe(subId);
-        resolve(profiles);
-      }, 5000);
-
-      // Subscribe to profile events
-      this.subscriptions.set(subId, (event: NostrEvent) => {
-        if (event.kind === 0) {
-          try {
-            const content = JSON.parse(event.content);
-            profiles.set(event.pubkey, {
-              pubkey: event.pubkey,
-              ...content,
-              created_at: event.created_at,
-            });
-          } catch (error) {
-            console.error('Error parsing profile content:', error);
-          }
-        }
-      });
+        resolve({ events, eose });
+      };
 
-      // Send subscription request
-      const req = JSON.stringify([
-        'REQ',
-        subId,
-        {
-          kinds: [0],
-          authors: pubkeys,
-        },
-      ]);
+      // Set timeout
+      const timeout = setTimeout(() => finish(false), timeoutMs);
 
-      this.ws!.send(req);
+      this.subscribe(
+        subId,
+        filters,
+        (event) => events.push(event),
+        () => finish(true),
+      );
     });
   }
 
+  async fetchEvents(filters: Filter[], timeoutMs: number = 3000): Promise<NostrEvent[]> {
+    return (await this.query(filters, timeoutMs)).events;
+  }
+
+  async fetchProfile(pubkey: string): Promise<NostrProfile | null> {
+    const events = await this.fetchEvents([{ kinds: [0], authors: [pubkey], limit: 1 }]);
+
+    let newest: NostrEvent | null = null;
+    for (const event of events) {
+      if (isNewerEvent(event, newest)) {
+        newest = event;
+      }
+    }
+
+    return newest ? parseProfileEvent(newest, this.relayUrl, this.logger) : null;
+  }
+
   private handleMessage(data: string): void {
     try {
       const message = JSON.parse(data);
@@ -145,26 +216,178 @@ export class NostrService {
         const subId = message[1];
         const event = message[2];
 
-        // Notify subscription handler
-        const handler = this.subscriptions.get(subId);
-        if (handler) {
-          handler(event);
+        const subscription = this.subscriptions.get(subId);
+        if (!subscription) return;
+
+        // Never hand unverified content to subscribers
+        const rejection = getEventRejection(event, subscription.filters);
+        if (rejection) {
+          this.rejectedEvents++;
+          incrementCounter('yestr_nostr_events_rejected_total', { reason: rejection });
+          this.logger.warn('Rejected event', {
+            relay: this.relayUrl,
+            eventId: event?.id,
+            reason: rejection,
+          });
+          return;
         }
+
+        subscription.onEvent(event);
       } else if (message[0] === 'EOSE') {
         // End of stored events
         const subId = message[1];
-        console.log(`End of stored events for subscription: ${subId}`);
+        this.subscriptions.get(subId)?.onEose?.();
       }
     } catch (error) {
-      console.error('Error handling WebSocket message:', error);
+      this.logger.warn('Error handling WebSocket message', {
+        relay: this.relayUrl,
+        ...errorFields(error),
+      });
     }
   }
+}
 
-  private unsubscribe(subId: string): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      const close = JSON.stringify(['CLOSE', subId]);
-      this.ws.send(close);
+// Opens a connection and times a cheap REQ until EOSE. Used by the deep health check.
+export async function checkRelay(
+  relayUrl: string,
+  timeoutMs: number,
+  logger: Logger = createLogger(),
+): Promise<RelayHealth> {
+  const startTime = Date.now();
+  const nostrService = new NostrService(relayUrl, logger);
+
+  try {
+    await nostrService.connect(timeoutMs);
+    const { eose } = await nostrService.query(
+      [{ kinds: [0], limit: 1 }],
+      Math.max(0, timeoutMs - (Date.now() - startTime)),
+    );
+    const latencyMs = Date.now() - startTime;
+
+    return eose
+      ? { url: relayUrl, status: 'connected', latencyMs }
+      : { url: relayUrl, status: 'timeout', latencyMs, error: `No EOSE within ${timeoutMs}ms` };
+  } catch (error) {
+    return {
+      url: relayUrl,
+      status: 'error',
+      latencyMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Connection failed',
+    };
+  } finally {
+    nostrService.disconnect();
+  }
+}
+
+// Looks a profile up on several relays in parallel, including the author's
+// NIP-65 write relays, and keeps the newest kind:0 event. Relay hints and
+// write relays come from other people's events, so they must pass the
+// outbound URL policy; the configured relays are trusted.
+export class RelayPool {
+  constructor(
+    private relayUrls: string[],
+    private urlPolicy: UrlPolicy = getUrlPolicy(),
+    private logger: Logger = createLogger(),
+  ) {}
+
+  private isAllowedRelay(relayUrl: string): boolean {
+    const rejection = getUrlRejection(relayUrl, this.urlPolicy, ['ws:', 'wss:']);
+    if (rejection) {
+      this.logger.warn('Skipping relay', { relay: relayUrl, reason: rejection });
     }
-    this.subscriptions.delete(subId);
+    return !rejection;
+  }
+
+  private async queryRelays(
+    relayUrls: string[],
+    filters: Filter[],
+  ): Promise<{ relay: string; event: NostrEvent }[]> {
+    const results = await Promise.allSettled(
+      relayUrls.map(async (relayUrl) => {
+        const nostrService = new NostrService(relayUrl, this.logger);
+        try {
+          await nostrService.connect();
+          const events = await nostrService.fetchEvents(filters);
+          return events.map((event) => ({ relay: relayUrl, event }));
+        } finally {
+          nostrService.disconnect();
+        }
+      }),
+    );
+
+    return results.flatMap((result) => {
+      if (result.status === 'rejected') {
+        this.logger.warn('Relay lookup failed', errorFields(result.reason));
+        return [];
+      }
+      return result.value;
+    });
+  }
+
+  async fetchProfile(pubkey: string, relayHints: string[] = []): Promise<NostrProfile | null> {
+    const hints = relayHints.filter(
+      (relay) => !this.relayUrls.includes(relay) && this.isAllowedRelay(relay),
+    );
+    const queried = [...new Set([...this.relayUrls, ...hints])];
+
+    const received = await this.queryRelays(queried, [
+      { kinds: [0], authors: [pubkey], limit: 1 },
+      { kinds: [10002], authors: [pubkey], limit: 1 },
+    ]);
+
+    let relayList: NostrEvent | null = null;
+    for (const { event } of received) {
+      if (event.kind === 10002 && isNewerEvent(event, relayList)) {
+        relayList = event;
+      }
+    }
+
+    // Second round against the author's own write relays that we haven't asked yet
+    if (relayList) {
+      const outbox = getWriteRelays(relayList)
+        .filter((relay) => !queried.includes(relay) && this.isAllowedRelay(relay))
+        .slice(0, MAX_OUTBOX_RELAYS);
+
+      if (outbox.length > 0) {
+        received.push(
+          ...(await this.queryRelays(outbox, [{ kinds: [0], authors: [pubkey], limit: 1 }])),
+        );
+      }
+    }
+
+    let newest: { relay: string; event: NostrEvent } | null = null;
+    for (const candidate of received) {
+      if (candidate.event.kind === 0 && isNewerEvent(candidate.event, newest?.event || null)) {
+        newest = candidate;
+      }
+    }
+
+    return newest ? parseProfileEvent(newest.event, newest.relay, this.logger) : null;
+  }
+
+  // Newest profile of each pubkey on any configured relay, one subscription per relay
+  async fetchProfiles(pubkeys: string[]): Promise<Map<string, NostrProfile>> {
+    const received = await this.queryRelays(this.relayUrls, [{ kinds: [0], authors: pubkeys }]);
+
+    const newest = new Map<string, { relay: string; event: NostrEvent }>();
+    for (const candidate of received) {
+      const current = newest.get(candidate.event.pubkey);
+      if (isNewerEvent(candidate.event, current?.event || null)) {
+        newest.set(candidate.event.pubkey, candidate);
+      }
+    }
+
+    const profiles = new Map<string, NostrProfile>();
+    for (const [pubkey, { relay, event }] of newest) {
+      const profile = parseProfileEvent(event, relay, this.logger);
+      if (profile) profiles.set(pubkey, profile);
+    }
+    return profiles;
   }
 }
+
+// The relay pool every profile lookup goes through: the configured relays plus
+// policy-checked hints
+export function createRelayPool(env: Env, logger: Logger = createLogger(env)): RelayPool {
+  return new RelayPool(getConfiguredRelays(env), getUrlPolicy(env), logger);
+}
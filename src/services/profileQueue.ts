@@ -0,0 +1,254 @@
+import {
+  Env,
+  ImageFormat,
+  ImageVariant,
+  NostrProfile,
+  ProfileMetadata,
+  ProfileWarmMessage,
+} from '../types';
+import { FetchCoalescer } from './coalescer';
+import { StorageService } from './storage';
+import { getAllCacheKeys, getCacheKey, parseCacheKey, shouldRevalidate } from '../utils/cache';
+import { purgeEdgeCache } from '../utils/edgeCache';
+import { createLogger, errorFields, Logger } from '../utils/logger';
+
+// Avatar sizes rendered ahead of time, in the default output format
+export const WARM_SIZES = [200, 400];
+
+// Keep in sync with max_retries of the profile queue consumer in wrangler.toml
+const MAX_RETRIES = 3;
+const DEAD_LETTER_TTL = 7 * 24 * 60 * 60; // 7 days
+
+export interface ProfileQueue {
+  send(message: ProfileWarmMessage): Promise<void>;
+}
+
+// Only the fields the consumer needs, queue messages are capped at 128 KB
+export function toWarmMessage(
+  profile: NostrProfile,
+  size?: number,
+  format?: ImageFormat,
+): ProfileWarmMessage {
+  return {
+    profile: {
+      pubkey: profile.pubkey,
+      picture: profile.picture,
+      created_at: profile.created_at,
+      relay: profile.relay,
+    },
+    size,
+    format,
+  };
+}
+
+// Seconds to wait before retrying a failed message: 30s, 60s, 120s, ...
+export function getRetryDelay(attempts: number): number {
+  return Math.min(30 * 2 ** (attempts - 1), 600);
+}
+
+function warmVariant(pubkey: string, size: number, format?: ImageFormat): ImageVariant {
+  return {
+    kind: 'avatar',
+    pubkey,
+    width: size,
+    height: size,
+    format,
+    cacheKey: getCacheKey(pubkey, size, format),
+  };
+}
+
+// Renders the warm sizes of a profile's avatar into R2, then purges the edge
+// copies of every variant it had when PUBLIC_ORIGIN says which host they were
+// cached under. Throws so the caller can retry.
+export async function warmProfile(
+  env: Env,
+  message: ProfileWarmMessage,
+  logger: Logger = createLogger(env),
+): Promise<void> {
+  const { profile } = message;
+  const storage = new StorageService(env, logger);
+  const coalescer = new FetchCoalescer(env, logger);
+  const metadata = await storage.getProfileMetadata(profile.pubkey);
+
+  const variants = WARM_SIZES.map((size) => warmVariant(profile.pubkey, size));
+  if (message.size) {
+    const requested = warmVariant(profile.pubkey, message.size, message.format);
+    if (!variants.some((variant) => variant.cacheKey === requested.cacheKey)) {
+      variants.push(requested);
+    }
+  }
+
+  let rendered = false;
+  for (const variant of variants) {
+    // Already rendered from this version of the profile, e.g. a redelivered
+    // message. Stale ones, e.g. queued by a batch lookup, are rendered again.
+    if (
+      metadata &&
+      metadata.originalUrl === profile.picture &&
+      metadata.profileUpdatedAt >= profile.created_at * 1000 &&
+      metadata.sizes[variant.cacheKey] &&
+      !shouldRevalidate(metadata, parseInt(env.IMAGE_CACHE_DURATION))
+    ) {
+      continue;
+    }
+
+    await coalescer.fetchVariant({ variant, profile, refreshSource: true });
+    rendered = true;
+  }
+
+  // A new picture drops the profile's other variants, so all of them go
+  if (rendered && metadata && env.PUBLIC_ORIGIN) {
+    const refreshed = await storage.getProfileMetadata(profile.pubkey);
+    await purgeEdgeCache(
+      env,
+      env.PUBLIC_ORIGIN,
+      [...getAllCacheKeys(metadata), ...getAllCacheKeys(refreshed)],
+      logger,
+    );
+  }
+}
+
+// Renders every variant cached for a profile again from the given version of
+// it, or the default avatar sizes when nothing is cached yet. `pubkey` is the
+// verified author the variants are stored under. Failures are returned by
+// cache key rather than thrown; the fetch job records them.
+export async function refreshVariants(
+  env: Env,
+  pubkey: string,
+  profile: NostrProfile,
+  metadata: ProfileMetadata | null,
+  logger: Logger = createLogger(env),
+): Promise<Record<string, string>> {
+  if (profile.pubkey !== pubkey) {
+    throw new Error(`Profile of ${profile.pubkey} can't refresh ${pubkey}`);
+  }
+
+  const coalescer = new FetchCoalescer(env, logger);
+  const errors: Record<string, string> = {};
+
+  const variants = getAllCacheKeys(metadata)
+    .map(parseCacheKey)
+    .filter((variant): variant is ImageVariant => !!variant);
+  if (variants.length === 0) {
+    variants.push(...WARM_SIZES.map((size) => warmVariant(pubkey, size)));
+  }
+
+  for (const variant of variants) {
+    // A profile may have dropped its banner since the variant was cached
+    if (!(variant.kind === 'banner' ? profile.banner : profile.picture)) continue;
+
+    try {
+      await coalescer.fetchVariant({ variant, profile, refreshSource: true });
+    } catch (error) {
+      errors[variant.cacheKey] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return errors;
+}
+
+async function deadLetter(
+  env: Env,
+  message: ProfileWarmMessage,
+  error: string,
+  attempts: number,
+  logger: Logger,
+): Promise<void> {
+  const { pubkey } = message.profile;
+  logger.error('Giving up on profile', { attempts, error });
+
+  const storage = new StorageService(env, logger);
+  await storage.putDeadLetter(
+    { pubkey, message, error, attempts, failedAt: Date.now() },
+    DEAD_LETTER_TTL,
+  );
+}
+
+// Queue messages have no request, so lines are tagged with the message ID
+function messageLogger(env: Env, message: Message<ProfileWarmMessage>): Logger {
+  const logger = createLogger(env, message.id);
+  logger.set({ pubkey: message.body.profile.pubkey });
+  return logger;
+}
+
+// Consumer for the profile queue and its dead-letter queue
+export async function handleProfileQueue(
+  batch: MessageBatch<ProfileWarmMessage>,
+  env: Env,
+): Promise<void> {
+  // Messages only land here if the consumer itself crashed on every attempt
+  if (batch.queue.endsWith('-dlq')) {
+    for (const message of batch.messages) {
+      const logger = messageLogger(env, message);
+      await deadLetter(env, message.body, 'Retries exhausted', message.attempts, logger);
+      // No fetch job got far enough to record these
+      await new StorageService(env, logger).recordFailure(
+        message.body.profile.pubkey,
+        'Retries exhausted',
+      );
+      message.ack();
+    }
+    return;
+  }
+
+  for (const message of batch.messages) {
+    const logger = messageLogger(env, message);
+    try {
+      await warmProfile(env, message.body, logger);
+      message.ack();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+
+      if (message.attempts > MAX_RETRIES) {
+        await deadLetter(env, message.body, reason, message.attempts, logger);
+        message.ack();
+      } else {
+        logger.warn('Warming profile failed', {
+          attempts: message.attempts,
+          ...errorFields(error),
+        });
+        message.retry({ delaySeconds: getRetryDelay(message.attempts) });
+      }
+    }
+  }
+}
+
+// Stand-in for when PROFILE_QUEUE isn't bound: runs the consumer one message
+// at a time in the background of the current invocation, with the same retry
+// limit and dead-letter path but short delays.
+class LocalProfileQueue implements ProfileQueue {
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(
+    private env: Env,
+    private ctx: ExecutionContext,
+  ) {}
+
+  async send(message: ProfileWarmMessage): Promise<void> {
+    this.tail = this.tail.then(() => this.process(message));
+    this.ctx.waitUntil(this.tail);
+  }
+
+  private async process(message: ProfileWarmMessage): Promise<void> {
+    const logger = createLogger(this.env);
+    logger.set({ pubkey: message.profile.pubkey });
+
+    for (let attempts = 1; ; attempts++) {
+      try {
+        await warmProfile(this.env, message, logger);
+        return;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        if (attempts > MAX_RETRIES) {
+          await deadLetter(this.env, message, reason, attempts, logger);
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, attempts * 1000));
+      }
+    }
+  }
+}
+
+export function getProfileQueue(env: Env, ctx: ExecutionContext): ProfileQueue {
+  return env.PROFILE_QUEUE || new LocalProfileQueue(env, ctx);
+}
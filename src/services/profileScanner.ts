@@ -1,89 +1,206 @@
-import { Env, NostrEvent, NostrProfile } from '../types';
-import { NostrService } from './nostr';
+import { Env, GarbageCollection, NostrProfile } from '../types';
+import { NostrService, parseProfileEvent } from './nostr';
 import { StorageService } from './storage';
+import { ProfileQueue, toWarmMessage } from './profileQueue';
+import { getOriginalR2Key } from '../utils/cache';
+import { createLogger, errorFields, Logger } from '../utils/logger';
+
+// Re-read this far behind the cursor to catch events with skewed clocks
+const OVERLAP_SECONDS = 10 * 60;
+// How far back the very first scan looks
+const INITIAL_LOOKBACK_SECONDS = 24 * 60 * 60;
+const DEFAULT_BACKFILL_CHUNK_SECONDS = 24 * 60 * 60;
+const MAX_PAGES_PER_RUN = 20;
+const PAGE_TIMEOUT = 10000; // 10 seconds per page
+// R2 prefixes swept by collectGarbage; avatars/ and banners/ hold images stored
+// per pubkey before storage became content-addressed
+const BLOB_PREFIXES = ['originals/', 'variants/', 'avatars/', 'banners/'];
+// Each garbage collection run lists this many pages of profiles or blobs; a
+// profile page costs a KV read per key, so keep it inside the subrequest limit
+const GC_PAGES_PER_RUN = 4;
+const GC_PAGE_SIZE = 100;
+// Profiles not fetched for this long are dropped by garbage collection
+const PROFILE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface WindowScan {
+  profiles: Map<string, NostrProfile>;
+  // False if paging stopped before reaching `since`
+  complete: boolean;
+  // Upper bound of the part of the window that is still unread
+  until: number;
+}
 
 export class ProfileScanner {
   constructor(
     private env: Env,
     private nostrService: NostrService,
     private storageService: StorageService,
+    private queue: ProfileQueue,
+    private logger: Logger = createLogger(env),
   ) {}
 
-  async scanRecentProfiles(limit: number = 100): Promise<void> {
+  // Scans everything published since the stored cursor, resuming an
+  // interrupted run first
+  async scanRecentProfiles(pageSize: number = 500): Promise<void> {
+    const rejectedBefore = this.nostrService.rejectedCount;
     try {
       await this.nostrService.connect();
 
-      // Fetch recent profile events from the relay
-      const profiles = await this.fetchRecentProfiles(limit);
+      const now = Math.floor(Date.now() / 1000);
+      const cursor = await this.storageService.getScanCursor();
+      const since = cursor ? cursor.since - OVERLAP_SECONDS : now - INITIAL_LOOKBACK_SECONDS;
+      const targetUntil = cursor?.targetUntil ?? now;
 
-      console.log(`Found ${profiles.size} recent profiles to process`);
+      const scan = await this.scanWindow(since, cursor?.resumeUntil ?? now, pageSize);
 
-      // Process each profile
-      for (const [pubkey, profile] of profiles) {
-        try {
-          await this.processProfile(profile);
-        } catch (error) {
-          console.error(`Error processing profile ${pubkey}:`, error);
-        }
+      this.logger.info('Found recent profiles', { profiles: scan.profiles.size });
+      await this.processProfiles(scan.profiles);
+
+      // Only move the cursor once the profiles have been queued
+      await this.storageService.putScanCursor(
+        scan.complete
+          ? { since: targetUntil, updatedAt: Date.now() }
+          : {
+              since: cursor?.since ?? since,
+              resumeUntil: scan.until,
+              targetUntil,
+              updatedAt: Date.now(),
+            },
+      );
+
+      if (!scan.complete) {
+        this.logger.info('Scan stopped, resuming on the next run', { until: scan.until });
       }
     } finally {
+      this.reportRejectedEvents(rejectedBefore);
       this.nostrService.disconnect();
     }
   }
 
-  private async fetchRecentProfiles(limit: number): Promise<Map<string, NostrProfile>> {
-    return new Promise((resolve) => {
-      const profiles = new Map<string, NostrProfile>();
-      const subId = `recent_profiles_${Date.now()}`;
-
-      // Set timeout
-      const timeout = setTimeout(() => {
-        this.nostrService['unsubscribe'](subId);
-        resolve(profiles);
-      }, 10000); // 10 seconds timeout
-
-      // Subscribe to recent profile events
-      this.nostrService['subscriptions'].set(subId, (event: NostrEvent) => {
-        if (event.kind === 0) {
-          try {
-            const content = JSON.parse(event.content);
-            if (content.picture) {
-              // Only process profiles with pictures
-              profiles.set(event.pubkey, {
-                pubkey: event.pubkey,
-                ...content,
-                created_at: event.created_at,
-              });
-            }
-          } catch (error) {
-            console.error('Error parsing profile content:', error);
-          }
-        }
+  // Starts a manual backfill of [since, until], picked up by runBackfill on each cron run
+  async startBackfill(
+    since: number,
+    until: number,
+    chunkSeconds: number = DEFAULT_BACKFILL_CHUNK_SECONDS,
+  ): Promise<void> {
+    await this.storageService.putBackfillJob({ since, until, chunkSeconds, updatedAt: Date.now() });
+  }
+
+  // Works through up to maxChunks of the pending backfill, newest first.
+  // Returns true while there is more left to do.
+  async runBackfill(maxChunks: number = 3, pageSize: number = 500): Promise<boolean> {
+    const job = await this.storageService.getBackfillJob();
+    if (!job) {
+      return false;
+    }
+
+    const rejectedBefore = this.nostrService.rejectedCount;
+    try {
+      await this.nostrService.connect();
+
+      let { until } = job;
+      const chunkSeconds = job.chunkSeconds || DEFAULT_BACKFILL_CHUNK_SECONDS;
+
+      for (let chunk = 0; chunk < maxChunks && until >= job.since; chunk++) {
+        const since = Math.max(job.since, until - chunkSeconds);
+        const scan = await this.scanWindow(since, until, pageSize);
+
+        this.logger.info('Backfill chunk scanned', { since, until, profiles: scan.profiles.size });
+        await this.processProfiles(scan.profiles);
+
+        // Relays treat since and until as inclusive
+        until = scan.complete ? since - 1 : scan.until;
+        await this.storageService.putBackfillJob({ ...job, until, updatedAt: Date.now() });
+
+        if (!scan.complete) break;
+      }
+
+      if (until < job.since) {
+        this.logger.info('Backfill complete');
+        await this.storageService.deleteBackfillJob();
+        return false;
+      }
+      return true;
+    } finally {
+      this.reportRejectedEvents(rejectedBefore);
+      this.nostrService.disconnect();
+    }
+  }
+
+  // Summarises the events the relay sent that failed verification during a run
+  private reportRejectedEvents(rejectedBefore: number): void {
+    const rejected = this.nostrService.rejectedCount - rejectedBefore;
+    if (rejected > 0) {
+      this.logger.warn('Rejected unverifiable profile events', {
+        relay: this.nostrService.url,
+        rejected,
       });
+    }
+  }
 
-      // Request recent profile events
-      const since = Math.floor(Date.now() / 1000) - 24 * 60 * 60; // Last 24 hours
-      const req = JSON.stringify([
-        'REQ',
-        subId,
-        {
-          kinds: [0],
-          since: since,
-          limit: limit,
-        },
-      ]);
-
-      this.nostrService['ws']!.send(req);
-    });
+  private async processProfiles(profiles: Map<string, NostrProfile>): Promise<void> {
+    for (const [pubkey, profile] of profiles) {
+      try {
+        await this.processProfile(pubkey, profile);
+      } catch (error) {
+        this.logger.error('Error processing profile', { profile: pubkey, ...errorFields(error) });
+      }
+    }
   }
 
-  private async processProfile(profile: NostrProfile): Promise<void> {
+  // Pages backwards from until to since. Relays return the newest events
+  // first, so each full page moves `until` down to its oldest event.
+  private async scanWindow(since: number, until: number, pageSize: number): Promise<WindowScan> {
+    const profiles = new Map<string, NostrProfile>();
+
+    for (let page = 0; page < MAX_PAGES_PER_RUN; page++) {
+      const { events, eose } = await this.nostrService.query(
+        [{ kinds: [0], since, until, limit: pageSize }],
+        PAGE_TIMEOUT,
+      );
+
+      for (const event of events) {
+        const existing = profiles.get(event.pubkey);
+        if (existing && existing.created_at >= event.created_at) {
+          continue;
+        }
+
+        const profile = parseProfileEvent(event, this.nostrService.url, this.logger);
+        if (profile) {
+          profiles.set(event.pubkey, profile);
+        }
+      }
+
+      // Retry this page on the next run rather than assuming it was complete
+      if (!eose) {
+        this.logger.warn('Relay timed out paging profiles', { until });
+        return { profiles, complete: false, until };
+      }
+
+      if (events.length < pageSize) {
+        return { profiles, complete: true, until: since };
+      }
+
+      // Step past a single second that holds more than a full page
+      const oldest = Math.min(...events.map((event) => event.created_at));
+      until = oldest < until ? oldest : until - 1;
+
+      if (until < since) {
+        return { profiles, complete: true, until: since };
+      }
+    }
+
+    return { profiles, complete: false, until };
+  }
+
+  // Keyed by the pubkey of the verified event the profile came from
+  private async processProfile(pubkey: string, profile: NostrProfile): Promise<void> {
     if (!profile.picture) {
       return;
     }
 
     // Check if we already have this profile
-    const metadata = await this.storageService.getProfileMetadata(profile.pubkey);
+    const metadata = await this.storageService.getProfileMetadata(pubkey);
 
     if (metadata) {
       // Check if profile has been updated
@@ -94,50 +211,155 @@ export class ProfileScanner {
       }
     }
 
-    // Queue the profile for processing
-    // In a production system, this would add to a queue
-    // For MVP, we just log it
-    console.log(`Profile ${profile.pubkey} needs processing: ${profile.picture}`);
-
-    // Update metadata to mark it as discovered
-    await this.storageService.putProfileMetadata({
-      pubkey: profile.pubkey,
-      originalUrl: profile.picture,
-      sizes: {},
-      fetchedAt: 0, // Not fetched yet
-      profileUpdatedAt: profile.created_at * 1000,
-    });
+    // Queue the profile so its default sizes are rendered before the first view
+    this.logger.debug('Queueing profile', { profile: pubkey, picture: profile.picture });
+    await this.queue.send(toWarmMessage({ ...profile, pubkey }));
   }
 
-  async cleanupOldImages(daysOld: number = 30): Promise<void> {
+  // Runs one bounded step of garbage collection and returns true while there
+  // is more to do. A collection starts when `start` is set and none is in
+  // progress, then continues on each call until it finishes.
+  //
+  // Mark and sweep over the content-addressed blobs: the mark phase records
+  // every key a profile references, deleting profiles not fetched within
+  // maxAgeMs instead; the sweep deletes anything under the blob prefixes that
+  // wasn't marked. Objects uploaded less than graceMs before the collection
+  // started are kept, so renders recorded during it aren't swept.
+  async collectGarbage(
+    start: boolean = false,
+    maxPages: number = GC_PAGES_PER_RUN,
+    pageSize: number = GC_PAGE_SIZE,
+    maxAgeMs: number = PROFILE_MAX_AGE_MS,
+    graceMs: number = 24 * 60 * 60 * 1000,
+  ): Promise<boolean> {
     try {
-      const cutoffTime = Date.now() - daysOld * 24 * 60 * 60 * 1000;
+      let state = await this.storageService.getGarbageCollection();
+      if (!state) {
+        if (!start) return false;
+        state = {
+          phase: 'mark',
+          startedAt: Date.now(),
+          prefix: 0,
+          referenced: [],
+          totalProfiles: 0,
+          totalImages: 0,
+          storageUsed: 0,
+          expired: 0,
+          deleted: 0,
+        };
+      }
 
-      // List all profiles in KV
-      const profilesList = await this.env.PROFILE_KV.list({ limit: 1000 });
+      const referenced = new Set(state.referenced);
+      for (let page = 0; page < maxPages; page++) {
+        if (state.phase === 'mark') {
+          await this.markPage(state, referenced, pageSize, maxAgeMs);
+          continue;
+        }
 
-      let deletedCount = 0;
+        if (await this.sweepPage(state, referenced, pageSize, graceMs)) {
+          this.logger.info('Garbage collected unreferenced images', {
+            deleted: state.deleted,
+            expiredProfiles: state.expired,
+          });
+          await this.storageService.putStats({
+            totalProfiles: state.totalProfiles,
+            totalImages: state.totalImages,
+            storageUsed: state.storageUsed,
+            updatedAt: Date.now(),
+          });
+          await this.storageService.deleteGarbageCollection();
+          return false;
+        }
+      }
 
-      for (const key of profilesList.keys) {
-        const metadata = await this.storageService.getProfileMetadata(
-          key.name.replace('profile:', ''),
-        );
+      // KV values are capped at 25 MiB, around 250k referenced keys
+      state.referenced = [...referenced];
+      await this.storageService.putGarbageCollection(state);
+      this.logger.info('Garbage collection paused, resuming on the next run', {
+        phase: state.phase,
+      });
+      return true;
+    } catch (error) {
+      this.logger.error('Error during garbage collection', errorFields(error));
+      return false;
+    }
+  }
 
-        if (metadata && metadata.fetchedAt < cutoffTime) {
-          // Delete associated images from R2
-          for (const size of Object.values(metadata.sizes)) {
-            await this.storageService.deleteImage(size.key);
-          }
+  private async markPage(
+    state: GarbageCollection,
+    referenced: Set<string>,
+    pageSize: number,
+    maxAgeMs: number,
+  ): Promise<void> {
+    const cutoffTime = Date.now() - maxAgeMs;
 
-          // Delete metadata
-          await this.storageService.deleteProfileMetadata(metadata.pubkey);
-          deletedCount++;
-        }
+    const page = await this.env.PROFILE_KV.list({
+      prefix: 'profile:',
+      cursor: state.cursor,
+      limit: pageSize,
+    });
+    for (const key of page.keys) {
+      const metadata = await this.storageService.getProfileMetadata(
+        key.name.replace('profile:', ''),
+      );
+      if (!metadata) continue;
+
+      if (metadata.fetchedAt < cutoffTime) {
+        // Its images are swept below unless another profile shares them
+        await this.storageService.deleteProfileMetadata(metadata.pubkey);
+        state.expired++;
+        continue;
       }
+      state.totalProfiles++;
 
-      console.log(`Cleaned up ${deletedCount} old profiles`);
-    } catch (error) {
-      console.error('Error during cleanup:', error);
+      for (const image of [
+        ...Object.values(metadata.sizes),
+        ...Object.values(metadata.banners || {}),
+      ]) {
+        referenced.add(image.key);
+        if (image.hash) referenced.add(getOriginalR2Key(image.hash));
+      }
+    }
+
+    if (page.list_complete) {
+      state.phase = 'sweep';
+      state.cursor = undefined;
+    } else {
+      state.cursor = page.cursor;
+    }
+  }
+
+  // Sweeps one page of the current blob prefix. Returns true once every
+  // prefix has been swept.
+  private async sweepPage(
+    state: GarbageCollection,
+    referenced: Set<string>,
+    pageSize: number,
+    graceMs: number,
+  ): Promise<boolean> {
+    const cutoffTime = state.startedAt - graceMs;
+
+    const page = await this.storageService.listImages(
+      BLOB_PREFIXES[state.prefix],
+      state.cursor,
+      pageSize,
+    );
+    for (const object of page.objects) {
+      if (!referenced.has(object.key) && object.uploaded.getTime() < cutoffTime) {
+        await this.storageService.deleteImage(object.key);
+        state.deleted++;
+      } else {
+        state.totalImages++;
+        state.storageUsed += object.size;
+      }
+    }
+
+    if (page.truncated) {
+      state.cursor = page.cursor;
+      return false;
     }
+    state.cursor = undefined;
+    state.prefix++;
+    return state.prefix >= BLOB_PREFIXES.length;
   }
 }
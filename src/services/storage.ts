@@ -1,14 +1,38 @@
-import { Env, ProfileMetadata } from '../types';
+import {
+  BackfillJob,
+  DeadLetterRecord,
+  Env,
+  GarbageCollection,
+  Nip05Record,
+  ProfileImageKind,
+  ProfileMetadata,
+  ScanCursor,
+  StorageStats,
+} from '../types';
+import { toFailureRecord } from '../utils/errors';
+import { createLogger, errorFields, Logger } from '../utils/logger';
 
 export class StorageService {
-  constructor(private env: Env) {}
+  constructor(
+    private env: Env,
+    private logger: Logger = createLogger(env),
+  ) {}
 
   // R2 Storage Methods
-  async getImage(key: string): Promise<R2ObjectBody | null> {
+  async getImage(key: string, options?: R2GetOptions): Promise<R2ObjectBody | null> {
     try {
-      return await this.env.AVATAR_BUCKET.get(key);
+      return await this.env.AVATAR_BUCKET.get(key, options);
     } catch (error) {
-      console.error(`Error getting image from R2: ${error}`);
+      this.logger.error('Error getting image from R2', errorFields(error));
+      return null;
+    }
+  }
+
+  async headImage(key: string): Promise<R2Object | null> {
+    try {
+      return await this.env.AVATAR_BUCKET.head(key);
+    } catch (error) {
+      this.logger.error('Error getting image metadata from R2', errorFields(error));
       return null;
     }
   }
@@ -17,13 +41,15 @@ export class StorageService {
     key: string,
     buffer: ArrayBuffer,
     metadata?: Record<string, string>,
+    customMetadata?: Record<string, string>,
   ): Promise<R2Object | null> {
     try {
       return await this.env.AVATAR_BUCKET.put(key, buffer, {
         httpMetadata: metadata,
+        customMetadata,
       });
     } catch (error) {
-      console.error(`Error putting image to R2: ${error}`);
+      this.logger.error('Error putting image to R2', errorFields(error));
       return null;
     }
   }
@@ -32,12 +58,12 @@ export class StorageService {
     try {
       await this.env.AVATAR_BUCKET.delete(key);
     } catch (error) {
-      console.error(`Error deleting image from R2: ${error}`);
+      this.logger.error('Error deleting image from R2', errorFields(error));
     }
   }
 
-  async listImages(prefix: string): Promise<R2Objects> {
-    return await this.env.AVATAR_BUCKET.list({ prefix });
+  async listImages(prefix: string, cursor?: string, limit?: number): Promise<R2Objects> {
+    return await this.env.AVATAR_BUCKET.list({ prefix, cursor, limit });
   }
 
   // KV Storage Methods
@@ -46,7 +72,7 @@ export class StorageService {
       const data = await this.env.PROFILE_KV.get(`profile:${pubkey}`, 'json');
       return data as ProfileMetadata | null;
     } catch (error) {
-      console.error(`Error getting profile metadata: ${error}`);
+      this.logger.error('Error getting profile metadata', errorFields(error));
       return null;
     }
   }
@@ -55,9 +81,11 @@ export class StorageService {
     try {
       await this.env.PROFILE_KV.put(`profile:${metadata.pubkey}`, JSON.stringify(metadata), {
         expirationTtl: 86400 * 30, // 30 days
+        // Lets the admin API rank failing profiles from a key listing
+        metadata: { failureCount: metadata.failureCount || 0, lastFailure: metadata.lastFailure },
       });
     } catch (error) {
-      console.error(`Error putting profile metadata: ${error}`);
+      this.logger.error('Error putting profile metadata', errorFields(error));
     }
   }
 
@@ -65,7 +93,107 @@ export class StorageService {
     try {
       await this.env.PROFILE_KV.delete(`profile:${pubkey}`);
     } catch (error) {
-      console.error(`Error deleting profile metadata: ${error}`);
+      this.logger.error('Error deleting profile metadata', errorFields(error));
+    }
+  }
+
+  async getNip05Record(identifier: string): Promise<Nip05Record | null> {
+    try {
+      const data = await this.env.PROFILE_KV.get(`nip05:${identifier}`, 'json');
+      return data as Nip05Record | null;
+    } catch (error) {
+      this.logger.error('Error getting NIP-05 record', errorFields(error));
+      return null;
+    }
+  }
+
+  async putNip05Record(record: Nip05Record, ttlSeconds: number): Promise<void> {
+    try {
+      await this.env.PROFILE_KV.put(`nip05:${record.identifier}`, JSON.stringify(record), {
+        expirationTtl: ttlSeconds,
+      });
+    } catch (error) {
+      this.logger.error('Error putting NIP-05 record', errorFields(error));
+    }
+  }
+
+  async getScanCursor(): Promise<ScanCursor | null> {
+    try {
+      const data = await this.env.PROFILE_KV.get('scanner:cursor', 'json');
+      return data as ScanCursor | null;
+    } catch (error) {
+      this.logger.error('Error getting scan cursor', errorFields(error));
+      return null;
+    }
+  }
+
+  async putScanCursor(cursor: ScanCursor): Promise<void> {
+    try {
+      await this.env.PROFILE_KV.put('scanner:cursor', JSON.stringify(cursor));
+    } catch (error) {
+      this.logger.error('Error putting scan cursor', errorFields(error));
+    }
+  }
+
+  async getBackfillJob(): Promise<BackfillJob | null> {
+    try {
+      const data = await this.env.PROFILE_KV.get('scanner:backfill', 'json');
+      return data as BackfillJob | null;
+    } catch (error) {
+      this.logger.error('Error getting backfill job', errorFields(error));
+      return null;
+    }
+  }
+
+  async putBackfillJob(job: BackfillJob): Promise<void> {
+    try {
+      await this.env.PROFILE_KV.put('scanner:backfill', JSON.stringify(job));
+    } catch (error) {
+      this.logger.error('Error putting backfill job', errorFields(error));
+    }
+  }
+
+  async deleteBackfillJob(): Promise<void> {
+    try {
+      await this.env.PROFILE_KV.delete('scanner:backfill');
+    } catch (error) {
+      this.logger.error('Error deleting backfill job', errorFields(error));
+    }
+  }
+
+  async getGarbageCollection(): Promise<GarbageCollection | null> {
+    try {
+      const data = await this.env.PROFILE_KV.get('scanner:gc', 'json');
+      return data as GarbageCollection | null;
+    } catch (error) {
+      this.logger.error('Error getting garbage collection state', errorFields(error));
+      return null;
+    }
+  }
+
+  async putGarbageCollection(state: GarbageCollection): Promise<void> {
+    try {
+      await this.env.PROFILE_KV.put('scanner:gc', JSON.stringify(state));
+    } catch (error) {
+      this.logger.error('Error putting garbage collection state', errorFields(error));
+    }
+  }
+
+  async deleteGarbageCollection(): Promise<void> {
+    try {
+      await this.env.PROFILE_KV.delete('scanner:gc');
+    } catch (error) {
+      this.logger.error('Error deleting garbage collection state', errorFields(error));
+    }
+  }
+
+  async putDeadLetter(record: DeadLetterRecord, ttlSeconds: number): Promise<void> {
+    try {
+      await this.env.PROFILE_KV.put(`deadletter:${record.pubkey}`, JSON.stringify(record), {
+        expirationTtl: ttlSeconds,
+      });
+    } catch (error) {
+      this.logger.error('Error putting dead letter', errorFields(error));
     }
   }
 
@@ -87,55 +215,52 @@ export class StorageService {
   }
 
   // Stats methods
-  async getStats(): Promise<{
-    totalProfiles: number;
-    totalImages: number;
-    storageUsed: number;
-  }> {
+  // KV and R2 can't count their keys, so these are the totals from the last
+  // garbage collection run
+  async getStats(): Promise<StorageStats> {
     try {
-      // Get approximate counts
-      const profilesList = await this.env.PROFILE_KV.list({ limit: 1 });
-      const imagesList = await this.env.AVATAR_BUCKET.list({ limit: 1 });
-
-      return {
-        totalProfiles: 0, // KV doesn't provide count
-        totalImages: 0, // R2 doesn't provide count in list
-        storageUsed: 0, // Would need to track separately
-      };
+      const data = await this.env.PROFILE_KV.get('stats:storage', 'json');
+      if (data) return data as StorageStats;
     } catch (error) {
-      console.error(`Error getting stats: ${error}`);
-      return {
-        totalProfiles: 0,
-        totalImages: 0,
-        storageUsed: 0,
-      };
+      this.logger.error('Error getting stats', errorFields(error));
     }
+    return { totalProfiles: 0, totalImages: 0, storageUsed: 0, updatedAt: 0 };
   }
 
-  // Helper to check if profile needs refresh
-  shouldRefreshProfile(metadata: ProfileMetadata, maxAge: number): boolean {
-    const age = Date.now() - metadata.fetchedAt;
-    return age > maxAge;
+  async putStats(stats: StorageStats): Promise<void> {
+    try {
+      await this.env.PROFILE_KV.put('stats:storage', JSON.stringify(stats));
+    } catch (error) {
+      this.logger.error('Error putting stats', errorFields(error));
+    }
   }
 
   // Helper to track failures
-  async recordFailure(pubkey: string, error: string): Promise<void> {
+  async recordFailure(
+    pubkey: string,
+    error: unknown,
+    kind: ProfileImageKind = 'avatar',
+  ): Promise<void> {
     const metadata = await this.getProfileMetadata(pubkey);
+    const lastError = { ...toFailureRecord(error), kind };
 
     if (metadata) {
       metadata.failureCount = (metadata.failureCount || 0) + 1;
       metadata.lastFailure = Date.now();
+      metadata.lastError = lastError;
       await this.putProfileMetadata(metadata);
     } else {
-      // Create new metadata for failed profile
+      // Create new metadata for failed profile. No profile version has been
+      // seen, so any event the author publishes later counts as newer.
       await this.putProfileMetadata({
         pubkey,
         originalUrl: '',
         sizes: {},
         fetchedAt: Date.now(),
-        profileUpdatedAt: Date.now(),
+        profileUpdatedAt: 0,
         failureCount: 1,
         lastFailure: Date.now(),
+        lastError,
       });
     }
   }
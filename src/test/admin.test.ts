@@ -0,0 +1,156 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Env } from '../types';
+import { getCacheKey, getBannerCacheKey } from '../utils/cache';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools';
+import { StorageService } from '../services/storage';
+import { getAdminIdentity } from '../utils/auth';
+import { handleAdmin, listFailures } from '../handlers/admin';
+import { createKv } from './helpers';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Admin API', () => {
+  const secretKey = generateSecretKey();
+  const url = 'https://avatars.example.com/admin/failures';
+  const nip98 = (tags: string[][], createdAt = Math.floor(Date.now() / 1000)) => {
+    const event = finalizeEvent(
+      { kind: 27235, created_at: createdAt, tags, content: '' },
+      secretKey,
+    );
+    return `Nostr ${btoa(JSON.stringify(event))}`;
+  };
+  const request = (authorization: string, method = 'GET') =>
+    new Request(url, { method, headers: { Authorization: authorization } });
+
+  it('should accept the bearer token and NIP-98 events from admin pubkeys', async () => {
+    const auth = nip98([
+      ['u', url],
+      ['method', 'GET'],
+    ]);
+    const pubkey = JSON.parse(atob(auth.slice(6))).pubkey;
+
+    expect(await getAdminIdentity(request('Bearer s3cret'), { ADMIN_TOKEN: 's3cret' })).toBe(
+      'token',
+    );
+    expect(
+      await getAdminIdentity(request(auth), { ADMIN_PUBKEYS: `${'f'.repeat(64)},${pubkey}` }),
+    ).toBe(pubkey);
+  });
+
+  it('should reject wrong tokens, other signers and events for another request', async () => {
+    const tags = [
+      ['u', url],
+      ['method', 'GET'],
+    ];
+    const pubkey = JSON.parse(atob(nip98(tags).slice(6))).pubkey;
+    const env = { ADMIN_TOKEN: 's3cret', ADMIN_PUBKEYS: pubkey };
+
+    expect(await getAdminIdentity(request('Bearer wrong'), env)).toBeNull();
+    expect(await getAdminIdentity(request('Bearer s3cret'), {})).toBeNull();
+    expect(
+      await getAdminIdentity(request(nip98(tags)), { ADMIN_PUBKEYS: 'f'.repeat(64) }),
+    ).toBeNull();
+    expect(await getAdminIdentity(request(nip98(tags), 'DELETE'), env)).toBeNull();
+    expect(
+      await getAdminIdentity(
+        request(
+          nip98([
+            ['u', `${url}?limit=1`],
+            ['method', 'GET'],
+          ]),
+        ),
+        env,
+      ),
+    ).toBeNull();
+    expect(await getAdminIdentity(request(nip98(tags, 1700000000)), env)).toBeNull();
+  });
+
+  const createEnv = () => {
+    const { values, namespace } = createKv();
+    return {
+      kv: values,
+      env: { ADMIN_TOKEN: 's3cret', PROFILE_KV: namespace } as unknown as Env,
+    };
+  };
+
+  it('should answer 401 to Nostr headers that are not events', async () => {
+    const { env } = createEnv();
+    for (const payload of ['{}', 'null', '[]', '"event"', '{"tags":null}']) {
+      const response = await handleAdmin(request(`Nostr ${btoa(payload)}`), env, new URL(url));
+      expect(response.status).toBe(401);
+    }
+  });
+
+  it('should rank failing profiles by failureCount from key metadata', async () => {
+    const { env } = createEnv();
+    const storage = new StorageService(env);
+    const profile = (pubkey: string, failureCount: number) =>
+      storage.putProfileMetadata({
+        pubkey,
+        originalUrl: '',
+        sizes: {},
+        fetchedAt: 0,
+        profileUpdatedAt: 0,
+        failureCount,
+        lastFailure: failureCount ? 1700000000000 : undefined,
+      });
+    await Promise.all([
+      profile('a'.repeat(64), 2),
+      profile('b'.repeat(64), 0),
+      profile('c'.repeat(64), 5),
+    ]);
+
+    const { failures, truncated } = await listFailures(env, 10);
+
+    expect(truncated).toBe(false);
+    expect(failures).toEqual([
+      { pubkey: 'c'.repeat(64), failureCount: 5, lastFailure: 1700000000000 },
+      { pubkey: 'a'.repeat(64), failureCount: 2, lastFailure: 1700000000000 },
+    ]);
+  });
+
+  it('should purge every variant and the metadata of a profile', async () => {
+    const { kv, env } = createEnv();
+    const pubkey = 'd'.repeat(64);
+    const deleted: string[] = [];
+    env.AVATAR_BUCKET = {
+      delete: async (key: string) => void deleted.push(key),
+    } as unknown as R2Bucket;
+    const image = (key: string) => ({
+      key,
+      contentType: 'image/webp',
+      etag: '"x"',
+      lastModified: 0,
+    });
+    await new StorageService(env).putProfileMetadata({
+      pubkey,
+      originalUrl: 'https://example.com/a.png',
+      sizes: { [getCacheKey(pubkey, 200)]: image('variants/h/200x200.auto') },
+      banners: { [getBannerCacheKey(pubkey, 1500, 500)]: image('variants/g/1500x500.auto') },
+      fetchedAt: 0,
+      profileUpdatedAt: 0,
+    });
+
+    const path = `https://avatars.example.com/admin/profiles/${pubkey}`;
+    const unauthorized = await handleAdmin(
+      new Request(path, { method: 'DELETE' }),
+      env,
+      new URL(path),
+    );
+    expect(unauthorized.status).toBe(401);
+    expect(kv.has(`profile:${pubkey}`)).toBe(true);
+
+    const response = await handleAdmin(request('Bearer s3cret', 'DELETE'), env, new URL(path));
+
+    expect(response.status).toBe(200);
+    expect(((await response.json()) as { purged: string[] }).purged.sort()).toEqual(
+      [getBannerCacheKey(pubkey, 1500, 500), getCacheKey(pubkey, 200)].sort(),
+    );
+    // Variants may be shared with other profiles; garbage collection removes them
+    expect(deleted).toEqual([]);
+    expect(kv.has(`profile:${pubkey}`)).toBe(false);
+  });
+});
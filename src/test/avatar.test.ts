@@ -0,0 +1,251 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Env } from '../types';
+import { getCacheKey, getFailureBackoff, getRetryAfter } from '../utils/cache';
+import { FetchCoalescer } from '../services/coalescer';
+import { RelayPool } from '../services/nostr';
+import { handleAvatar } from '../handlers/avatar';
+import { getEdgeCacheKey, purgeEdgeCache } from '../utils/edgeCache';
+import { createBucket, createKv } from './helpers';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Stale While Revalidate', () => {
+  const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+  const picture = 'https://example.com/a.png';
+
+  const setup = () => {
+    const kv = createKv({
+      [`profile:${pubkey}`]: {
+        pubkey,
+        originalUrl: picture,
+        sizes: {
+          [getCacheKey(pubkey, 400)]: {
+            key: 'variants/h1/400x400.auto',
+            hash: 'h1',
+            contentType: 'image/png',
+            etag: '"h1-400x400-auto"',
+            lastModified: 0,
+          },
+        },
+        fetchedAt: 0, // long expired
+        profileUpdatedAt: 1700000000000,
+      },
+    });
+
+    const env = {
+      PROFILE_KV: kv.namespace,
+      AVATAR_BUCKET: createBucket({ 'variants/h1/400x400.auto': 'stale image bytes' }).bucket,
+      IMAGE_CACHE_DURATION: '604800',
+      RELAY_URL: 'wss://relay.example.com',
+    } as unknown as Env;
+
+    const background: Promise<unknown>[] = [];
+    const ctx = { waitUntil: (promise: Promise<unknown>) => background.push(promise) };
+
+    const request = () =>
+      handleAvatar(
+        new Request(`https://avatars.example.com/avatar/${pubkey}?size=400`),
+        env,
+        ctx as unknown as ExecutionContext,
+        { identifier: pubkey },
+      );
+
+    return { kv, request, background };
+  };
+
+  it('should serve the stale copy and only refresh its freshness when nothing changed', async () => {
+    const { kv, request, background } = setup();
+    vi.spyOn(RelayPool.prototype, 'fetchProfile').mockResolvedValue({
+      pubkey,
+      picture,
+      created_at: 1700000000,
+    });
+
+    const response = await request();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('STALE');
+    expect(await response.text()).toBe('stale image bytes');
+
+    await Promise.all(background);
+    expect(kv.read(`profile:${pubkey}`).fetchedAt).toBeGreaterThan(0);
+  });
+
+  it('should keep serving the stale copy and back off when the relay is unreachable', async () => {
+    const { kv, request, background } = setup();
+    const fetchProfile = vi.spyOn(RelayPool.prototype, 'fetchProfile').mockResolvedValue(null);
+
+    const response = await request();
+    expect(response.status).toBe(200);
+
+    await Promise.all(background);
+    expect(kv.read(`profile:${pubkey}`)).toMatchObject({
+      fetchedAt: 0,
+      failureCount: 1,
+      lastError: { name: 'ProfileNotFoundError', kind: 'avatar' },
+    });
+
+    // Inside the backoff window the relays aren't asked again
+    const again = await request();
+    expect(again.status).toBe(200);
+    expect(again.headers.get('X-Cache')).toBe('STALE');
+    await Promise.all(background);
+    expect(fetchProfile).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Failure Backoff', () => {
+  const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+  const failed = (failureCount: number, lastFailure: number, kind?: 'avatar' | 'banner') => ({
+    pubkey,
+    originalUrl: 'https://dead.example.com/a.png',
+    sizes: {},
+    fetchedAt: 0,
+    profileUpdatedAt: 0,
+    failureCount,
+    lastFailure,
+    lastError: {
+      name: 'ImageFetchError',
+      message: 'Failed to fetch image: 502',
+      statusCode: 502,
+      kind,
+    },
+  });
+
+  it('should double the backoff per failure up to a day', () => {
+    expect([1, 2, 3, 20].map(getFailureBackoff)).toEqual([60, 120, 240, 86400]);
+  });
+
+  it('should only back off within the window and for the failing kind', () => {
+    const now = 1700000000000;
+    expect(getRetryAfter(failed(2, now - 30000), 'avatar', now)).toBe(90);
+    expect(getRetryAfter(failed(2, now - 130000), 'avatar', now)).toBe(0);
+    expect(getRetryAfter(failed(2, now - 30000, 'banner'), 'avatar', now)).toBe(0);
+  });
+
+  it('should replay the recorded failure with Retry-After without counting it again', async () => {
+    const kv = createKv({ [`profile:${pubkey}`]: failed(3, Date.now()) });
+    const env = {
+      PROFILE_KV: kv.namespace,
+      IMAGE_CACHE_DURATION: '604800',
+    } as unknown as Env;
+
+    const response = await handleAvatar(
+      new Request(`https://avatars.example.com/avatar/${pubkey}`),
+      env,
+      { waitUntil: () => {} } as unknown as ExecutionContext,
+      { identifier: pubkey },
+    );
+
+    expect(response.status).toBe(502);
+    expect(response.headers.get('Retry-After')).toBe('240');
+    expect(await response.json()).toMatchObject({ error: 'Failed to fetch image: 502' });
+    expect(kv.read(`profile:${pubkey}`).failureCount).toBe(3);
+  });
+
+  it('should count a failure shared by concurrent requests once', async () => {
+    const kv = createKv();
+    const env = {
+      PROFILE_KV: kv.namespace,
+      MAX_IMAGE_SIZE: '10485760',
+      ALLOWED_IMAGE_TYPES: 'image/png',
+    } as unknown as Env;
+
+    // No picture, so the shared job fails before touching the network
+    const job = {
+      variant: { kind: 'avatar' as const, pubkey, width: 400, height: 400, cacheKey: pubkey },
+      profile: { pubkey, created_at: 1700000000 },
+    };
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => new FetchCoalescer(env).fetchVariant(job)),
+    );
+
+    expect(results.every(({ status }) => status === 'rejected')).toBe(true);
+    expect(kv.read(`profile:${pubkey}`).failureCount).toBe(1);
+  });
+});
+
+describe('Edge Cache', () => {
+  const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+  const origin = 'https://avatars.example.com';
+
+  const fakeCache = () => {
+    const entries = new Map<string, Response>();
+    return {
+      entries,
+      match: async (key: string) => entries.get(key)?.clone(),
+      put: async (key: string, response: Response) => void entries.set(key, response),
+      delete: async (key: string) => entries.delete(key),
+    };
+  };
+
+  it('should key negotiated formats by Accept bucket only', () => {
+    const auto = { cacheKey: getCacheKey(pubkey, 400) };
+    const webp = { cacheKey: getCacheKey(pubkey, 400, 'webp'), format: 'webp' as const };
+
+    expect(getEdgeCacheKey(origin, auto, 'image/avif,image/webp,*/*')).toBe(
+      getEdgeCacheKey(origin, auto, 'image/webp'),
+    );
+    expect(getEdgeCacheKey(origin, auto, 'image/webp')).not.toBe(
+      getEdgeCacheKey(origin, auto, 'image/png,*/*'),
+    );
+    expect(getEdgeCacheKey(origin, webp, 'image/webp')).toBe(getEdgeCacheKey(origin, webp, null));
+  });
+
+  it('should serve repeat hits without reading KV or R2, until purged', async () => {
+    const cache = fakeCache();
+    vi.stubGlobal('caches', { default: cache });
+
+    const cacheKey = getCacheKey(pubkey, 400);
+    const metadata = {
+      pubkey,
+      originalUrl: 'https://example.com/a.png',
+      sizes: {
+        [cacheKey]: {
+          key: 'variants/h1/400x400.auto',
+          contentType: 'image/png',
+          etag: '"h1-400x400-auto"',
+          lastModified: 1700000000000,
+        },
+      },
+      fetchedAt: Date.now(),
+      profileUpdatedAt: 1700000000000,
+    };
+    const { namespace } = createKv({ [`profile:${pubkey}`]: metadata });
+    const { bucket } = createBucket({ 'variants/h1/400x400.auto': 'image bytes' });
+    const kvGet = vi.spyOn(namespace, 'get');
+    const r2Get = vi.spyOn(bucket, 'get');
+    const env = {
+      PROFILE_KV: namespace,
+      AVATAR_BUCKET: bucket,
+      IMAGE_CACHE_DURATION: '604800',
+    } as unknown as Env;
+
+    const background: Promise<unknown>[] = [];
+    const ctx = { waitUntil: (promise: Promise<unknown>) => background.push(promise) };
+    const request = (headers: Record<string, string> = {}) =>
+      handleAvatar(
+        new Request(`${origin}/avatar/${pubkey}?size=400`, { headers }),
+        env,
+        ctx as unknown as ExecutionContext,
+        { identifier: pubkey },
+      );
+
+    expect(await (await request()).text()).toBe('image bytes');
+    await Promise.all(background);
+    expect(cache.entries.size).toBe(1);
+
+    const hit = await request();
+    expect(hit.headers.get('X-Edge-Cache')).toBe('HIT');
+    expect(hit.headers.get('ETag')).toBe('"h1-400x400-auto"');
+    expect(await hit.text()).toBe('image bytes');
+    expect((await request({ 'If-None-Match': '"h1-400x400-auto"' })).status).toBe(304);
+    expect(kvGet).toHaveBeenCalledTimes(1);
+    expect(r2Get).toHaveBeenCalledTimes(1);
+
+    await purgeEdgeCache(env, origin, [cacheKey]);
+    expect(cache.entries.size).toBe(0);
+  });
+});
@@ -1,6 +1,38 @@
-import { describe, it, expect } from 'vitest';
-import { validatePubkey, parseAvatarRequest } from '../utils/validation';
-import { getCacheKey } from '../utils/cache';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Env } from '../types';
+import {
+  validatePubkey,
+  parseAvatarRequest,
+  parseBannerRequest,
+  parseBatchAvatarRequest,
+  decodeIdentifier,
+  isNip05Identifier,
+} from '../utils/validation';
+import {
+  getCacheKey,
+  getBannerCacheKey,
+  getVariantEtag,
+  getVariantR2Key,
+  parseCacheKey,
+} from '../utils/cache';
+import { AvatarGenerator } from '../services/avatarGenerator';
+import { coalesce } from '../services/coalescer';
+import { isNotModified, parseRange } from '../utils/conditional';
+import { createImageData, cropToAspectRatio, getOutputDimensions } from '../utils/imageData';
+import { createLogger, getLogLevel } from '../utils/logger';
+import worker from '../index';
+import {
+  emptySnapshot,
+  formatPrometheus,
+  getCacheHitRate,
+  getStatusClass,
+  mergeMetrics,
+} from '../utils/metrics';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
 
 describe('Validation Utils', () => {
   it('should validate valid pubkey', () => {
@@ -31,6 +63,114 @@ describe('Validation Utils', () => {
     expect(parsed.pubkey).toBe(pubkey);
     expect(parsed.size).toBe(400);
     expect(parsed.format).toBe('webp');
+    expect(parsed.fallback).toBe(false);
+  });
+
+  it('should parse the fallback flag', () => {
+    const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+    const request = new Request(`https://example.com/avatar/${pubkey}?fallback=true`);
+
+    expect(parseAvatarRequest(request, pubkey).fallback).toBe(true);
+  });
+
+  it('should only animate when asked', () => {
+    const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+    const still = new Request(`https://example.com/avatar/${pubkey}`);
+    const animated = new Request(`https://example.com/avatar/${pubkey}?animated=true`);
+
+    expect(parseAvatarRequest(still, pubkey).animated).toBe(false);
+    expect(parseAvatarRequest(animated, pubkey).animated).toBe(true);
+  });
+
+  it('should decode npub and nprofile identifiers', () => {
+    const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+
+    expect(
+      decodeIdentifier('npub1urmq2rvnpfsnywavffd504vwjcw69yvcxneltremxykzjxy99d2sgzlep6'),
+    ).toEqual({ pubkey, relays: [] });
+    expect(
+      decodeIdentifier(
+        'nprofile1qy28wumn8ghj7un9d3shjtnyv9kh2uewd9hszrthwden5te0dehhxtnvdakqqg8q7czsmyc2vyerhtz2tdratr5krk3frxp5706c7we39s533pft25alxkam',
+      ),
+    ).toEqual({ pubkey, relays: ['wss://relay.damus.io', 'wss://nos.lol'] });
+    expect(decodeIdentifier('npub1invalid')).toBeNull();
+  });
+
+  it('should parse banner sizes', () => {
+    const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+
+    const parsed = parseBannerRequest(
+      new Request(`https://example.com/banner/${pubkey}?size=1500x500&format=webp`),
+      pubkey,
+    );
+    expect(parsed.width).toBe(1500);
+    expect(parsed.height).toBe(500);
+    expect(parsed.format).toBe('webp');
+
+    const fallback = parseBannerRequest(
+      new Request(`https://example.com/banner/${pubkey}?size=400`),
+      pubkey,
+    );
+    expect(fallback.width).toBe(600);
+    expect(fallback.height).toBe(200);
+  });
+
+  it('should parse batch avatar requests', () => {
+    const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+
+    const parsed = parseBatchAvatarRequest({
+      pubkeys: [pubkey, pubkey.toUpperCase()],
+      size: 200,
+      format: 'webp',
+    });
+    expect(parsed.pubkeys).toEqual([pubkey]);
+    expect(parsed.size).toBe(200);
+    expect(parsed.format).toBe('webp');
+
+    expect(() => parseBatchAvatarRequest({ pubkeys: [] })).toThrow();
+    expect(() => parseBatchAvatarRequest({ pubkeys: ['invalid'] })).toThrow(
+      'Invalid pubkey format',
+    );
+    expect(() => parseBatchAvatarRequest({ pubkeys: new Array(301).fill(pubkey) })).toThrow(
+      'Too many pubkeys',
+    );
+  });
+
+  it('should recognise NIP-05 identifiers', () => {
+    expect(isNip05Identifier('alice@yestr.social')).toBe(true);
+    expect(isNip05Identifier('yestr.social')).toBe(false);
+    expect(isNip05Identifier('not an identifier')).toBe(false);
+  });
+
+  it('should answer malformed percent-escapes in identifiers with a 400', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const ctx = { waitUntil: () => {} } as unknown as ExecutionContext;
+
+    for (const path of ['/avatar/a%ZZ%40b.com', '/banner/a%E0%A4%A%40b.com']) {
+      const response = await worker.fetch(
+        new Request(`https://avatars.example.com${path}`),
+        {} as Env,
+        ctx,
+      );
+      expect(response.status, path).toBe(400);
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+      expect(await response.json()).toEqual({ error: 'Invalid pubkey format' });
+    }
+  });
+
+  it('should answer identifiers that fail to decode with a 400', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const ctx = { waitUntil: () => {} } as unknown as ExecutionContext;
+
+    for (const path of ['/avatar/npub1abcdef', '/banner/nprofile1zzz']) {
+      const response = await worker.fetch(
+        new Request(`https://avatars.example.com${path}`),
+        {} as Env,
+        ctx,
+      );
+      expect(response.status, path).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Invalid pubkey format' });
+    }
   });
 });
 
@@ -42,4 +182,256 @@ describe('Cache Utils', () => {
     expect(getCacheKey(pubkey, 400)).toBe(`avatar:${pubkey}:s400`);
     expect(getCacheKey(pubkey, 400, 'webp')).toBe(`avatar:${pubkey}:s400:webp`);
   });
+
+  it('should keep animated variants apart from stills', () => {
+    const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+
+    expect(getCacheKey(pubkey, 200, undefined, true)).toBe(`avatar:${pubkey}:s200:anim`);
+    expect(parseCacheKey(getCacheKey(pubkey, 200, 'webp', true))).toMatchObject({
+      width: 200,
+      format: 'webp',
+      animated: true,
+    });
+    expect(parseCacheKey(getCacheKey(pubkey, 200, undefined, true))?.format).toBeUndefined();
+    expect(getVariantR2Key('abc', 200, 200, undefined, true)).toBe(
+      'variants/abc/200x200-anim.auto',
+    );
+    expect(getVariantEtag('abc', 200, 200, 'webp', true)).not.toBe(
+      getVariantEtag('abc', 200, 200, 'webp'),
+    );
+  });
+
+  it('should generate separate banner cache keys', () => {
+    const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+
+    expect(getBannerCacheKey(pubkey, 600, 200)).toBe(`banner:${pubkey}:600x200`);
+    expect(getBannerCacheKey(pubkey, 1500, 500, 'webp')).toBe(`banner:${pubkey}:1500x500:webp`);
+  });
+});
+
+describe('Image Utils', () => {
+  it('should center-crop to a square', () => {
+    const data = new Uint8ClampedArray(4 * 2 * 4);
+    // Mark the pixel at column 1, row 0
+    data.set([255, 0, 0, 255], 1 * 4);
+    const image = createImageData(data, 4, 2);
+
+    const cropped = cropToAspectRatio(image, 1);
+    expect(cropped.width).toBe(2);
+    expect(cropped.height).toBe(2);
+    expect(Array.from(cropped.data.slice(0, 4))).toEqual([255, 0, 0, 255]);
+  });
+
+  it('should return the same image when the aspect ratio already matches', () => {
+    const image = createImageData(new Uint8ClampedArray(3 * 3 * 4), 3, 3);
+    expect(cropToAspectRatio(image, 1)).toBe(image);
+  });
+
+  it('should not upscale small images', () => {
+    expect(getOutputDimensions(1200, 1200, 400, 400)).toEqual({ width: 400, height: 400 });
+    expect(getOutputDimensions(150, 150, 400, 400)).toEqual({ width: 150, height: 150 });
+  });
+});
+
+describe('Avatar Generator', () => {
+  const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+  const otherPubkey = '82341f882b6eabcd2ba7f1ef90aad961cf074af15b9ef44a09f9d2a8fbfbe6a2';
+
+  it('should generate deterministic SVG avatars', () => {
+    const generator = new AvatarGenerator();
+    const svg = generator.generateSvg(pubkey, 200);
+
+    expect(svg).toBe(generator.generateSvg(pubkey, 200));
+    expect(svg).not.toBe(generator.generateSvg(otherPubkey, 200));
+    expect(svg).toContain('width="200"');
+  });
+
+  it('should render square RGBA pixels', () => {
+    const generator = new AvatarGenerator();
+    const image = generator.renderPixels(pubkey, 70);
+
+    expect(image.width).toBe(70);
+    expect(image.height).toBe(70);
+    expect(image.data.length).toBe(70 * 70 * 4);
+    // The outer margin is always background
+    expect(Array.from(image.data.slice(0, 4))).toEqual([240, 240, 240, 255]);
+  });
+});
+
+describe('Request Coalescing', () => {
+  it('should share one run between concurrent callers', async () => {
+    const inFlight = new Map<string, Promise<number>>();
+    let runs = 0;
+    const run = async () => {
+      runs++;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return 42;
+    };
+
+    const results = await Promise.all([
+      coalesce(inFlight, 'avatar:abc:s400', run),
+      coalesce(inFlight, 'avatar:abc:s400', run),
+      coalesce(inFlight, 'avatar:abc:s400', run),
+    ]);
+
+    expect(results).toEqual([42, 42, 42]);
+    expect(runs).toBe(1);
+    expect(inFlight.size).toBe(0);
+  });
+
+  it('should propagate failures to every waiter and allow retries', async () => {
+    const inFlight = new Map<string, Promise<number>>();
+    const failing = () => Promise.reject(new Error('upstream down'));
+
+    await expect(
+      Promise.all([coalesce(inFlight, 'key', failing), coalesce(inFlight, 'key', failing)]),
+    ).rejects.toThrow('upstream down');
+    expect(await coalesce(inFlight, 'key', async () => 1)).toBe(1);
+  });
+});
+
+describe('Conditional Requests', () => {
+  const etag = '"1700000000000-1234"';
+  const lastModified = Date.parse('Tue, 14 Nov 2023 22:13:20 GMT') + 500;
+  const request = (headers: Record<string, string>) =>
+    new Request('https://example.com/avatar/abc', { headers });
+
+  it('should match If-None-Match, including weak and listed validators', () => {
+    expect(isNotModified(request({ 'If-None-Match': etag }), etag, lastModified)).toBe(true);
+    expect(isNotModified(request({ 'If-None-Match': `"x", W/${etag}` }), etag, lastModified)).toBe(
+      true,
+    );
+    expect(isNotModified(request({ 'If-None-Match': '"other"' }), etag, lastModified)).toBe(false);
+  });
+
+  it('should prefer If-None-Match over If-Modified-Since', () => {
+    const headers = {
+      'If-None-Match': '"other"',
+      'If-Modified-Since': 'Tue, 14 Nov 2023 22:13:20 GMT',
+    };
+    expect(isNotModified(request(headers), etag, lastModified)).toBe(false);
+  });
+
+  it('should compare If-Modified-Since at second precision', () => {
+    const ims = (date: string) => request({ 'If-Modified-Since': date });
+    expect(isNotModified(ims('Tue, 14 Nov 2023 22:13:20 GMT'), etag, lastModified)).toBe(true);
+    expect(isNotModified(ims('Tue, 14 Nov 2023 22:13:19 GMT'), etag, lastModified)).toBe(false);
+    expect(isNotModified(ims('not a date'), etag, lastModified)).toBe(false);
+  });
+
+  it('should parse single byte ranges', () => {
+    const range = (value: string, extra: Record<string, string> = {}) =>
+      parseRange(request({ Range: value, ...extra }), 1000, etag);
+
+    expect(range('bytes=0-99')).toEqual({ offset: 0, length: 100 });
+    expect(range('bytes=900-')).toEqual({ offset: 900, length: 100 });
+    expect(range('bytes=-200')).toEqual({ offset: 800, length: 200 });
+    expect(range('bytes=990-5000')).toEqual({ offset: 990, length: 10 });
+    expect(range('bytes=1000-')).toBe('unsatisfiable');
+    expect(range('bytes=0-1,5-6')).toBeNull();
+    expect(range('bytes=0-99', { 'If-Range': '"stale"' })).toBeNull();
+    expect(parseRange(request({}), 1000, etag)).toBeNull();
+  });
+});
+
+describe('Metrics', () => {
+  const snapshot = () =>
+    mergeMetrics(emptySnapshot(), {
+      counters: {
+        'yestr_cache_requests_total{kind="avatar",status="hit"}': 7,
+        'yestr_cache_requests_total{kind="avatar",status="stale"}': 2,
+        'yestr_cache_requests_total{kind="avatar",status="miss"}': 1,
+        'yestr_upstream_failures_total{class="4xx"}': 3,
+      },
+      histograms: {
+        yestr_upstream_latency_seconds: {
+          buckets: [0, 1, 1, 2, 2, 2, 2, 2, 2],
+          sum: 0.5,
+          count: 2,
+        },
+      },
+    });
+
+  it('should total counters and histograms across flushes', () => {
+    const totals = mergeMetrics(snapshot(), snapshot());
+    expect(totals.counters['yestr_upstream_failures_total{class="4xx"}']).toBe(6);
+    expect(totals.histograms.yestr_upstream_latency_seconds).toMatchObject({ sum: 1, count: 4 });
+    expect(totals.histograms.yestr_upstream_latency_seconds.buckets[1]).toBe(2);
+  });
+
+  it('should count stale serves as cache hits', () => {
+    expect(getCacheHitRate(snapshot())).toBe(0.9);
+    expect(getCacheHitRate(emptySnapshot())).toBe(0);
+  });
+
+  it('should classify upstream statuses', () => {
+    expect([404, 503, undefined].map(getStatusClass)).toEqual(['4xx', '5xx', 'network']);
+  });
+
+  it('should render the Prometheus text format', () => {
+    const text = formatPrometheus(snapshot());
+    expect(text).toContain('# TYPE yestr_cache_requests_total counter');
+    expect(text).toContain('yestr_cache_requests_total{kind="avatar",status="hit"} 7');
+    expect(text).toContain('# TYPE yestr_upstream_latency_seconds histogram');
+    expect(text).toContain('yestr_upstream_latency_seconds_bucket{le="0.1"} 1');
+    expect(text).toContain('yestr_upstream_latency_seconds_bucket{le="+Inf"} 2');
+    expect(text).toContain('yestr_upstream_latency_seconds_count 2');
+  });
+});
+
+describe('Structured Logging', () => {
+  const lines = (spy: { mock: { calls: unknown[][] } }) =>
+    spy.mock.calls.map(([line]) => JSON.parse(line as string));
+
+  it('should write JSON lines with the request context and honour LOG_LEVEL', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const logger = createLogger({ LOG_LEVEL: 'WARN' }, 'req-1');
+    logger.set({ pubkey: 'abc', cache: 'miss' });
+    logger.info('dropped');
+    logger.warn('kept', { status: 502 });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(lines(warn)).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        message: 'kept',
+        requestId: 'req-1',
+        pubkey: 'abc',
+        cache: 'miss',
+        upstreamHost: null,
+        elapsedMs: expect.any(Number),
+        status: 502,
+      }),
+    ]);
+    expect(getLogLevel({ LOG_LEVEL: 'verbose' })).toBe('info');
+  });
+
+  it('should keep child fields out of the parent context', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const logger = createLogger({}, 'req-2');
+    logger.child({ pubkey: 'child' }).info('child line');
+    logger.info('parent line');
+
+    expect(lines(log).map((line) => line.pubkey)).toEqual(['child', null]);
+  });
+
+  it('should echo a well-formed X-Request-Id and replace anything else', async () => {
+    const ctx = { waitUntil: () => {} } as unknown as ExecutionContext;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const fetchWith = (requestId: string) =>
+      worker.fetch(
+        new Request('https://avatars.example.com/unknown', {
+          headers: { 'X-Request-Id': requestId },
+        }),
+        {} as Env,
+        ctx,
+      );
+
+    expect((await fetchWith('trace-123')).headers.get('X-Request-Id')).toBe('trace-123');
+    expect((await fetchWith('bad id\n')).headers.get('X-Request-Id')).toMatch(/^[0-9a-f-]{36}$/);
+  });
 });
@@ -0,0 +1,84 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Env, ProfileWarmMessage } from '../types';
+import { getCacheKey } from '../utils/cache';
+import { FetchCoalescer } from '../services/coalescer';
+import { RelayPool } from '../services/nostr';
+import { handleBatchAvatars } from '../handlers/batch';
+import { createKv, createQueue } from './helpers';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Batch Avatars', () => {
+  const cached = 'a'.repeat(64);
+  const known = 'b'.repeat(64);
+  const unknown = 'c'.repeat(64);
+
+  const setup = (queue?: Queue<ProfileWarmMessage>) => {
+    const kv = createKv({
+      [`profile:${cached}`]: {
+        pubkey: cached,
+        originalUrl: 'https://example.com/a.png',
+        sizes: { [getCacheKey(cached, 800, 'webp')]: { key: 'k', etag: '"a"' } },
+        fetchedAt: Date.now(),
+        profileUpdatedAt: 0,
+      },
+    });
+    const env = {
+      PROFILE_KV: kv.namespace,
+      IMAGE_CACHE_DURATION: '86400',
+      RELAY_URL: 'wss://relay.example.com',
+      PROFILE_QUEUE: queue,
+    } as unknown as Env;
+    vi.spyOn(RelayPool.prototype, 'fetchProfiles').mockResolvedValue(
+      new Map([[known, { pubkey: known, picture: 'https://example.com/b.png', created_at: 1 }]]),
+    );
+    const waitUntil = vi.fn();
+    const request = new Request('https://avatars.example.com/avatars/batch', {
+      method: 'POST',
+      body: JSON.stringify({ pubkeys: [cached, known, unknown], size: 800, format: 'webp' }),
+    });
+    return { env, request, ctx: { waitUntil } as unknown as ExecutionContext, waitUntil };
+  };
+
+  it('should report cache state and queue misses when the queue is bound', async () => {
+    const { sent, queue } = createQueue();
+    const { env, request, ctx, waitUntil } = setup(queue);
+
+    const response = await handleBatchAvatars(request, env, ctx);
+    const { avatars } = (await response.json()) as {
+      avatars: Record<string, { cacheStatus: string; queued: boolean; failed: boolean }>;
+    };
+
+    expect(response.status).toBe(200);
+    expect(avatars[cached]).toMatchObject({ cacheStatus: 'HIT', queued: false });
+    expect(avatars[known]).toMatchObject({ cacheStatus: 'MISS', queued: true });
+    expect(avatars[unknown]).toMatchObject({ cacheStatus: 'MISS', queued: false, failed: true });
+    expect(sent).toEqual([
+      expect.objectContaining({
+        profile: expect.objectContaining({ pubkey: known }),
+        size: 800,
+        format: 'webp',
+      }),
+    ]);
+    expect(waitUntil).not.toHaveBeenCalled();
+  });
+
+  it('should warm misses in the background without a queue', async () => {
+    const fetched: string[] = [];
+    vi.spyOn(FetchCoalescer.prototype, 'fetchVariant').mockImplementation(async (job) => {
+      fetched.push(job.variant.cacheKey);
+      return { body: new ArrayBuffer(0), contentType: 'image/webp', etag: '"b"', lastModified: 0 };
+    });
+    const { env, request, ctx, waitUntil } = setup();
+
+    const response = await handleBatchAvatars(request, env, ctx);
+
+    expect(response.status).toBe(200);
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+    await waitUntil.mock.calls[0][0];
+    expect(fetched).toEqual([getCacheKey(known, 800, 'webp')]);
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Env, ImageFetchError } from '../types';
+import { ImageService } from '../services/image';
+import {
+  FetchStrategy,
+  getFailureReason,
+  getFetchStrategies,
+  getProxySignatureHeaders,
+  orderStrategies,
+  shouldTryStrategy,
+} from '../utils/fetchStrategies';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Fetch Strategies', () => {
+  const names = (strategies: { name: string }[]) => strategies.map((strategy) => strategy.name);
+  const image = () =>
+    new Response(new Uint8Array([0x89, 0x50, 0x4e, 0x47]), {
+      headers: { 'Content-Type': 'image/png' },
+    });
+
+  it('should add the proxy to the default chain only when its secret is set', () => {
+    expect(names(getFetchStrategies({}))).toEqual(['direct']);
+    expect(getFetchStrategies({ IMAGE_PROXY_SECRET: 's3cret' })[1]).toMatchObject({
+      name: 'proxy',
+      type: 'proxy',
+      url: 'https://relay.yestr.social/proxy-image',
+      secret: 'IMAGE_PROXY_SECRET',
+      on: ['403', 'html'],
+    });
+
+    const configured = getFetchStrategies({
+      FETCH_STRATEGIES: JSON.stringify([
+        { name: 'browser', type: 'direct', headers: { 'User-Agent': 'Mozilla/5.0' } },
+        { name: 'archive', type: 'archive', url: 'https://web.archive.org/web/0id_/', on: ['5xx'] },
+      ]),
+    });
+    expect(names(configured)).toEqual(['browser', 'archive']);
+    expect(names(orderStrategies(configured, 'archive'))).toEqual(['archive', 'browser']);
+    expect(names(orderStrategies(configured, 'removed'))).toEqual(['browser', 'archive']);
+  });
+
+  it('should fall back to the default chain when FETCH_STRATEGIES is invalid', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    for (const config of ['not json', '[]', '[{"name":"p","type":"proxy","url":"https://p"}]']) {
+      expect(names(getFetchStrategies({ FETCH_STRATEGIES: config }))).toEqual(['direct']);
+    }
+    expect(error).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only try a strategy when it triggers on the previous failure', () => {
+    const proxy: FetchStrategy = {
+      name: 'proxy',
+      type: 'proxy',
+      url: 'https://proxy.example/fetch',
+      secret: 'IMAGE_PROXY_SECRET',
+      on: ['403', 'html'],
+    };
+
+    expect(shouldTryStrategy(proxy, undefined)).toBe(true);
+    expect(shouldTryStrategy(proxy, new ImageFetchError('Forbidden', 403))).toBe(true);
+    expect(shouldTryStrategy(proxy, new ImageFetchError('Not found', 404))).toBe(false);
+    expect(shouldTryStrategy(proxy, new ImageFetchError('Busy', 503))).toBe(false);
+    expect(getFailureReason(new ImageFetchError('Captcha', 403, undefined, 'html'))).toBe('html');
+    expect(getFailureReason(new ImageFetchError('Slow', 504, undefined, 'timeout'))).toBe(
+      'timeout',
+    );
+    expect(getFailureReason(new Error('boom'))).toBeNull();
+  });
+
+  it('should fall back to the signed proxy on a 403 without sending the secret', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn(async (url: string, _init?: RequestInit) =>
+      url.startsWith('https://proxy.example/') ? image() : new Response('no', { status: 403 }),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const imageService = new ImageService(1024, ['image/png'], {
+      IMAGE_PROXY_SECRET: 's3cret',
+      IMAGE_PROXY_URL: 'https://proxy.example/fetch',
+    } as unknown as Env);
+
+    const result = await imageService.fetchImage('https://example.com/a.png');
+    expect(result.strategy).toBe('proxy');
+    expect(result.buffer.byteLength).toBe(4);
+
+    const [proxyUrl, init] = fetchMock.mock.calls[1];
+    expect(proxyUrl).toBe('https://proxy.example/fetch?url=https%3A%2F%2Fexample.com%2Fa.png');
+    expect(proxyUrl).not.toContain('s3cret');
+    const headers = init!.headers as Record<string, string>;
+    const expected = await getProxySignatureHeaders(
+      's3cret',
+      'https://example.com/a.png',
+      parseInt(headers['X-Proxy-Timestamp']),
+    );
+    expect(headers['X-Proxy-Signature']).toBe(expected['X-Proxy-Signature']);
+
+    // A refresh that knows the proxy worked goes straight to it
+    fetchMock.mockClear();
+    await imageService.fetchImage('https://example.com/a.png', 'proxy');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/^https:\/\/proxy\.example\//);
+  });
+
+  it('should still send the secret as a query parameter when the legacy flag is set', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => image());
+    vi.stubGlobal('fetch', fetchMock);
+
+    const imageService = new ImageService(1024, ['image/png'], {
+      IMAGE_PROXY_SECRET: 's3cret',
+      IMAGE_PROXY_URL: 'https://proxy.example/fetch',
+      IMAGE_PROXY_LEGACY_SECRET: 'true',
+    } as unknown as Env);
+
+    await imageService.fetchImage('https://example.com/a.png', 'proxy');
+
+    const [proxyUrl, init] = fetchMock.mock.calls[0];
+    expect(new URL(proxyUrl).searchParams.get('secret')).toBe('s3cret');
+    expect(init!.headers).toHaveProperty('X-Proxy-Signature');
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Env } from '../types';
+import { checkRelay } from '../services/nostr';
+import { handleHealth } from '../handlers/health';
+import { emptySnapshot } from '../utils/metrics';
+import { createBucket, createKv } from './helpers';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Relay Health', () => {
+  // Relays whose URL contains "down" refuse connections, "slow" never sends EOSE
+  class FakeWebSocket {
+    static OPEN = 1;
+    readyState = 0;
+    private listeners = new Map<string, (event: unknown) => void>();
+
+    constructor(private url: string) {
+      setTimeout(() => {
+        if (url.includes('down')) {
+          this.listeners.get('error')?.(new Error('refused'));
+          return;
+        }
+        this.readyState = FakeWebSocket.OPEN;
+        this.listeners.get('open')?.({});
+      }, 5);
+    }
+
+    addEventListener(type: string, listener: (event: unknown) => void) {
+      this.listeners.set(type, listener);
+    }
+
+    send(data: string) {
+      const [type, subId] = JSON.parse(data);
+      if (type === 'REQ' && !this.url.includes('slow')) {
+        setTimeout(
+          () => this.listeners.get('message')?.({ data: JSON.stringify(['EOSE', subId]) }),
+          5,
+        );
+      }
+    }
+
+    close() {
+      this.readyState = 3;
+    }
+  }
+
+  it('should report EOSE latency, timeouts and refused connections', async () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    const [up, slow, down] = await Promise.all(
+      ['wss://up.example.com', 'wss://slow.example.com', 'wss://down.example.com'].map((url) =>
+        checkRelay(url, 100),
+      ),
+    );
+
+    expect(up).toMatchObject({ url: 'wss://up.example.com', status: 'connected' });
+    expect(up.latencyMs).toBeLessThan(100);
+    expect(slow).toMatchObject({ status: 'timeout', error: 'No EOSE within 100ms' });
+    expect(down.status).toBe('error');
+  });
+
+  it('should only check relays on deep requests and degrade when some are down', async () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    const kv = createKv();
+    const kvGet = vi.spyOn(kv.namespace, 'get');
+    const metricsCalls: string[] = [];
+    const env = {
+      AVATAR_BUCKET: createBucket().bucket,
+      PROFILE_KV: kv.namespace,
+      METRICS: {
+        idFromName: () => 'global',
+        get: () => ({
+          fetch: async (url: string) => {
+            metricsCalls.push(url);
+            return Response.json(emptySnapshot());
+          },
+        }),
+      },
+      RELAY_URL: 'wss://up.example.com',
+      RELAY_URLS: 'wss://down.example.com',
+    } as unknown as Env;
+    const health = async (query: string, relayEnv: Env = env) =>
+      (
+        await handleHealth(new Request(`https://avatars.example.com/health${query}`), relayEnv)
+      ).json();
+
+    const shallow = await health('');
+    expect(shallow).toMatchObject({
+      status: 'healthy',
+      services: { relay: 'unchecked' },
+    });
+    // Only the connectivity probe, no stats
+    expect(shallow).not.toHaveProperty('stats');
+    expect(kvGet).toHaveBeenCalledTimes(1);
+    expect(metricsCalls).toEqual([]);
+
+    expect(await health('?deep=true')).toMatchObject({
+      stats: { cacheHitRate: 0 },
+      status: 'degraded',
+      services: { relay: 'connected' },
+      relays: [{ status: 'connected' }, { status: 'error' }],
+    });
+
+    // A second deep check shortly after reuses the relay and stats results
+    const sockets = vi.fn();
+    vi.stubGlobal(
+      'WebSocket',
+      class extends FakeWebSocket {
+        constructor(url: string) {
+          super(url);
+          sockets(url);
+        }
+      },
+    );
+    const calls = metricsCalls.length;
+    expect(await health('?deep=true')).toMatchObject({ stats: { cacheHitRate: 0 } });
+    expect(sockets).not.toHaveBeenCalled();
+    expect(metricsCalls).toHaveLength(calls);
+    expect(
+      await health('?deep=true', { ...env, RELAY_URL: 'wss://down.example.com', RELAY_URLS: '' }),
+    ).toMatchObject({ status: 'unhealthy', services: { relay: 'error' } });
+  });
+});
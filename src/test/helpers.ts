@@ -0,0 +1,96 @@
+import type { ProfileWarmMessage } from '../types';
+
+// In-memory stand-ins for the Worker's bindings, shared by the test files
+
+// PROFILE_KV. `values` holds what was written, as the JSON strings KV stores.
+export function createKv(initial: Record<string, unknown> = {}) {
+  const values = new Map(
+    Object.entries(initial).map(([key, value]) => [key, JSON.stringify(value)]),
+  );
+  const metadata = new Map<string, unknown>();
+
+  const namespace = {
+    get: async (key: string) => JSON.parse(values.get(key) || 'null'),
+    put: async (key: string, value: string, options?: { metadata?: unknown }) => {
+      values.set(key, value);
+      metadata.set(key, options?.metadata);
+    },
+    delete: async (key: string) => {
+      values.delete(key);
+      metadata.delete(key);
+    },
+    list: async ({ prefix = '' }: { prefix?: string } = {}) => ({
+      keys: [...values.keys()]
+        .filter((name) => name.startsWith(prefix))
+        .map((name) => ({ name, metadata: metadata.get(name) })),
+      list_complete: true,
+    }),
+  };
+
+  return {
+    values,
+    namespace: namespace as unknown as KVNamespace,
+    // The parsed value stored under a key, or null
+    read: (key: string) => JSON.parse(values.get(key) || 'null'),
+  };
+}
+
+// AVATAR_BUCKET, with objects held as bytes
+export function createBucket(initial: Record<string, string | ArrayBuffer> = {}) {
+  const objects = new Map<
+    string,
+    {
+      body: ArrayBuffer;
+      httpMetadata?: R2HTTPMetadata;
+      customMetadata?: Record<string, string>;
+      uploaded: Date;
+    }
+  >();
+  const put = (
+    key: string,
+    body: string | ArrayBuffer,
+    options?: { httpMetadata?: R2HTTPMetadata; customMetadata?: Record<string, string> },
+  ) => {
+    const bytes = typeof body === 'string' ? new TextEncoder().encode(body).buffer : body;
+    objects.set(key, { body: bytes, ...options, uploaded: new Date() });
+  };
+  for (const [key, body] of Object.entries(initial)) put(key, body);
+
+  const head = (key: string) => {
+    const object = objects.get(key);
+    return object ? { key, size: object.body.byteLength, ...object } : null;
+  };
+
+  const bucket = {
+    head: async (key: string) => head(key),
+    get: async (key: string, options?: { range?: { offset: number; length: number } }) => {
+      const object = head(key);
+      if (!object) return null;
+      const { offset = 0, length = object.size } = options?.range || {};
+      const body = object.body.slice(offset, offset + length);
+      return { ...object, body, arrayBuffer: async () => body.slice(0) };
+    },
+    put: async (key: string, body: string | ArrayBuffer, options?: R2PutOptions) =>
+      void put(key, body, options as Parameters<typeof put>[2]),
+    delete: async (keys: string | string[]) => {
+      for (const key of [keys].flat()) objects.delete(key);
+    },
+    list: async ({ prefix = '' }: R2ListOptions = {}) => ({
+      objects: [...objects.keys()].filter((key) => key.startsWith(prefix)).map(head),
+      truncated: false,
+    }),
+  };
+
+  return { objects, bucket: bucket as unknown as R2Bucket };
+}
+
+// PROFILE_QUEUE, collecting what was sent
+export function createQueue() {
+  const sent: ProfileWarmMessage[] = [];
+  const queue = {
+    send: async (message: ProfileWarmMessage) => void sent.push(message),
+    sendBatch: async (messages: { body: ProfileWarmMessage }[]) =>
+      void sent.push(...messages.map(({ body }) => body)),
+  };
+  return { sent, queue: queue as unknown as Queue<ProfileWarmMessage> };
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { ImageLimitError } from '../types';
+import { ImageService } from '../services/image';
+import { getMetrics } from '../utils/metrics';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Image Processing', () => {
+  const fromBase64 = (data: string) => Uint8Array.from(atob(data), (c) => c.charCodeAt(0)).buffer;
+  // 4x2, left half red and right half blue
+  const png = fromBase64(
+    'iVBORw0KGgoAAAANSUhEUgAAAAQAAAACCAIAAADwyuo0AAAAFUlEQVR4nGP4z8Dwn4EBTPxnQOYAAGeyB/nadYY6AAAAAElFTkSuQmCC',
+  );
+  // 4x4, a red frame then a blue one
+  const gif = fromBase64(
+    'R0lGODlhBAAEAIAAAP8AAAAA/yH/C05FVFNDQVBFMi4wAwEAAAAh+QQACgAAACwAAAAABAAEAAACBISPCQUAIfkEAAoAAAAsAAAAAAQABAAAAgSMjxkFADs=',
+  );
+  const imageService = new ImageService(1024 * 1024, ['image/png', 'image/gif']);
+
+  it('should decode, crop and re-encode a PNG', async () => {
+    const result = await imageService.processImage(png, { width: 2, height: 2, format: 'png' });
+    expect(result).toMatchObject({ contentType: 'image/png', width: 2, height: 2 });
+
+    const { decodeImage } = await import('../services/codecs');
+    const decoded = await decodeImage(result.buffer, 'image/png');
+    // The center crop keeps one red and one blue column
+    expect(Array.from(decoded.data.slice(0, 4))).toEqual([255, 0, 0, 255]);
+    expect(Array.from(decoded.data.slice(4, 8))).toEqual([0, 0, 255, 255]);
+  });
+
+  it('should render the first frame of a GIF as a still', async () => {
+    const result = await imageService.processImage(gif, { width: 4, format: 'webp' });
+    expect(result).toMatchObject({ contentType: 'image/webp', width: 4, height: 4 });
+
+    const { decodeImage } = await import('../services/codecs');
+    const decoded = await decodeImage(result.buffer, 'image/webp');
+    expect(decoded.data[0]).toBeGreaterThan(200);
+    expect(decoded.data[2]).toBeLessThan(50);
+  });
+
+  it('should keep every frame of an animated GIF when asked', async () => {
+    const result = await imageService.processImage(gif, { width: 2, animated: true });
+    expect(result).toMatchObject({ contentType: 'image/gif', width: 2, height: 2 });
+
+    const { decodeGifAnimation } = await import('../services/codecs');
+    const animation = await decodeGifAnimation(result.buffer, 10, async (frame) => frame);
+    expect(animation.loopCount).toBe(0);
+    expect(animation.frames.map(({ image }) => Array.from(image.data.slice(0, 3)))).toEqual([
+      [255, 0, 0],
+      [0, 0, 255],
+    ]);
+  });
+
+  it('should reject an image the decoder cannot read with 422', async () => {
+    const rejections = async () =>
+      (await getMetrics({})).counters['yestr_image_rejections_total{reason="invalid"}'] || 0;
+    const before = await rejections();
+
+    // Valid headers, so the probe passes, but the pixel data is cut off
+    const truncated = png.slice(0, 40);
+    const error = await imageService.processImage(truncated, { width: 2 }).catch((e) => e);
+    expect(error).toMatchObject({
+      name: 'ImageFetchError',
+      statusCode: 422,
+      message: expect.stringContaining('Failed to decode image/png'),
+    });
+    expect(error).not.toBeInstanceOf(ImageLimitError);
+    expect(await rejections()).toBe(before + 1);
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { ImageLimitError } from '../types';
+import { getImageLimits, getLimitViolation, probeImage } from '../utils/imageProbe';
+import { ImageService } from '../services/image';
+import { getMetrics } from '../utils/metrics';
+import { fromFailureRecord, toFailureRecord } from '../utils/errors';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Image Probe', () => {
+  const bytes = (...parts: (number[] | string)[]) =>
+    new Uint8Array(
+      parts.flatMap((part) =>
+        typeof part === 'string' ? [...part].map((c) => c.charCodeAt(0)) : part,
+      ),
+    ).buffer;
+  const be32 = (n: number) => [n >>> 24, (n >>> 16) & 255, (n >>> 8) & 255, n & 255];
+  const le16 = (n: number) => [n & 255, n >>> 8];
+  const le24 = (n: number) => [n & 255, (n >>> 8) & 255, n >>> 16];
+  const le32 = (n: number) => [...le16(n & 0xffff), ...le16(n >>> 16)];
+
+  const png = (width: number, height: number, frames?: number) =>
+    bytes(
+      [0x89],
+      'PNG\r\n\x1a\n',
+      be32(13),
+      'IHDR',
+      be32(width),
+      be32(height),
+      [8, 6, 0, 0, 0],
+      be32(0),
+      ...(frames ? [be32(8), 'acTL', be32(frames), be32(0), be32(0)] : []),
+      be32(0),
+      'IDAT',
+    );
+
+  it('should read PNG, APNG, GIF, WebP and JPEG headers', () => {
+    expect(probeImage(png(30000, 30000))).toEqual({
+      format: 'png',
+      width: 30000,
+      height: 30000,
+      frames: 1,
+    });
+    expect(probeImage(png(64, 64, 12))?.frames).toBe(12);
+
+    // Two frames, each with a graphic control extension
+    const gifFrame = [0x21, 0xf9, 4, 0, 0, 0, 0, 0, 0x2c, ...new Array(8).fill(0), 0, 2, 1, 0, 0];
+    expect(
+      probeImage(bytes('GIF89a', le16(320), le16(200), [0, 0, 0], gifFrame, gifFrame, [0x3b])),
+    ).toEqual({ format: 'gif', width: 320, height: 200, frames: 2 });
+
+    const vp8 = bytes(
+      'RIFF',
+      le32(0),
+      'WEBP',
+      'VP8 ',
+      le32(10),
+      [0, 0, 0, 0x9d, 1, 0x2a],
+      le16(640),
+      le16(480),
+    );
+    expect(probeImage(vp8)).toMatchObject({ format: 'webp', width: 640, height: 480 });
+
+    const anmf = ['ANMF', le32(0)];
+    const animated = bytes(
+      'RIFF',
+      le32(0),
+      'WEBP',
+      'VP8X',
+      le32(10),
+      [2, 0, 0, 0],
+      le24(99),
+      le24(49),
+      ...anmf,
+      ...anmf,
+      ...anmf,
+    );
+    expect(probeImage(animated)).toEqual({ format: 'webp', width: 100, height: 50, frames: 3 });
+
+    const jpeg = bytes(
+      [0xff, 0xd8, 0xff, 0xe0],
+      [0, 4, 0, 0],
+      [0xff, 0xc2, 0, 11, 8],
+      [0x0f, 0xa0, 0x1f, 0x40],
+      [3, 0, 0],
+    );
+    expect(probeImage(jpeg)).toEqual({ format: 'jpeg', width: 8000, height: 4000, frames: 1 });
+  });
+
+  it('should return null for truncated or unknown data', () => {
+    expect(probeImage(png(10, 10).slice(0, 20))).toBeNull();
+    expect(probeImage(bytes('<html>'))).toBeNull();
+  });
+
+  it('should enforce pixel, aspect ratio and frame limits', () => {
+    const limits = getImageLimits({ MAX_IMAGE_FRAMES: '10' });
+    const probe = (width: number, height: number, frames = 1) => ({
+      format: 'png' as const,
+      width,
+      height,
+      frames,
+    });
+
+    expect(getLimitViolation(probe(4000, 3000), limits)).toBeNull();
+    expect(getLimitViolation(probe(30000, 30000), limits)).toBe(
+      'Image is 30000x30000, over the 16777216 pixel limit',
+    );
+    expect(getLimitViolation(probe(3000, 100), limits)).toBe(
+      'Image is 3000x100, over the 20:1 aspect ratio limit',
+    );
+    expect(getLimitViolation(probe(100, 100, 11), limits)).toBe(
+      'Image has 11 frames, over the 10 frame limit',
+    );
+  });
+
+  it('should check every GIF frame, not just the canvas', () => {
+    const limits = getImageLimits({});
+    // A 10x10 canvas with a 65535x65535 frame
+    const frame = [0x2c, 0, 0, 0, 0, ...le16(65535), ...le16(65535), 0, 2, 1, 0, 0];
+    const probe = probeImage(bytes('GIF89a', le16(10), le16(10), [0, 0, 0], frame, [0x3b]))!;
+
+    expect(probe).toMatchObject({ width: 10, height: 10, largestFrame: { width: 65535 } });
+    expect(getLimitViolation(probe, limits)).toBe(
+      'Image has a 65535x65535 frame, over the 16777216 pixel limit',
+    );
+  });
+
+  it('should reject decompression bombs with a limit error before decoding', async () => {
+    const rejections = async () =>
+      (await getMetrics({})).counters['yestr_image_rejections_total{reason="limit"}'] || 0;
+    const before = await rejections();
+
+    const imageService = new ImageService(10485760, ['image/png']);
+    let error: unknown;
+    try {
+      imageService.probeImage(png(30000, 30000), 'https://example.com/bomb.png');
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ImageLimitError);
+    expect(error).toMatchObject({ statusCode: 422, code: 'image_too_large' });
+    expect(await rejections()).toBe(before + 1);
+    // Replayed from the backoff window as the same kind of error
+    expect(fromFailureRecord(toFailureRecord(error))).toBeInstanceOf(ImageLimitError);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { NostrEvent } from '../types';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools';
+import {
+  getConfiguredRelays,
+  getEventRejection,
+  getWriteRelays,
+  isNewerEvent,
+  NostrService,
+  parseProfileEvent,
+  RelayPool,
+} from '../services/nostr';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Relay Selection', () => {
+  const event = (overrides: Partial<NostrEvent>): NostrEvent => ({
+    id: 'b'.repeat(64),
+    pubkey: 'a'.repeat(64),
+    created_at: 1000,
+    kind: 0,
+    tags: [],
+    content: '{}',
+    sig: '',
+    ...overrides,
+  });
+
+  it('should prefer the newest event and break ties by lowest id', () => {
+    expect(isNewerEvent(event({ created_at: 1001 }), event({}))).toBe(true);
+    expect(isNewerEvent(event({ created_at: 999 }), event({}))).toBe(false);
+    expect(isNewerEvent(event({ id: 'a'.repeat(64) }), event({}))).toBe(true);
+    expect(isNewerEvent(event({ id: 'c'.repeat(64) }), event({}))).toBe(false);
+    expect(isNewerEvent(event({}), null)).toBe(true);
+  });
+
+  it('should read write relays from NIP-65 relay lists', () => {
+    const relayList = event({
+      kind: 10002,
+      tags: [
+        ['r', 'wss://both.example.com'],
+        ['r', 'wss://write.example.com', 'write'],
+        ['r', 'wss://read.example.com', 'read'],
+        ['r', 'http://insecure.example.com'],
+        ['p', 'wss://not-a-relay.example.com'],
+      ],
+    });
+
+    expect(getWriteRelays(relayList)).toEqual([
+      'wss://both.example.com',
+      'wss://write.example.com',
+    ]);
+  });
+
+  it('should merge RELAY_URL with RELAY_URLS', () => {
+    expect(
+      getConfiguredRelays({
+        RELAY_URL: 'wss://relay.yestr.social',
+        RELAY_URLS: 'wss://nos.lol, wss://relay.yestr.social,',
+      }),
+    ).toEqual(['wss://relay.yestr.social', 'wss://nos.lol']);
+    expect(getConfiguredRelays({ RELAY_URL: 'wss://relay.yestr.social' })).toEqual([
+      'wss://relay.yestr.social',
+    ]);
+  });
+
+  it('should look up a batch of profiles on every configured relay', async () => {
+    const other = 'c'.repeat(64);
+    const relayEvents: Record<string, NostrEvent[]> = {
+      'wss://one.example.com': [
+        event({ content: '{"picture":"https://example.com/old.png"}' }),
+        event({ pubkey: other, content: '{"picture":"https://example.com/c.png"}' }),
+      ],
+      'wss://two.example.com': [
+        event({ created_at: 1001, content: '{"picture":"https://example.com/new.png"}' }),
+      ],
+    };
+    vi.spyOn(NostrService.prototype, 'connect').mockResolvedValue();
+    vi.spyOn(NostrService.prototype, 'fetchEvents').mockImplementation(async function (
+      this: NostrService,
+    ) {
+      return relayEvents[this.url];
+    });
+
+    const profiles = await new RelayPool(Object.keys(relayEvents)).fetchProfiles([
+      'a'.repeat(64),
+      other,
+    ]);
+
+    expect(profiles.get('a'.repeat(64))).toMatchObject({
+      picture: 'https://example.com/new.png',
+      relay: 'wss://two.example.com',
+    });
+    expect(profiles.get(other)?.picture).toBe('https://example.com/c.png');
+  });
+});
+
+describe('Event Verification', () => {
+  const secretKey = generateSecretKey();
+  const signed = finalizeEvent(
+    {
+      kind: 0,
+      created_at: 1700000000,
+      tags: [],
+      content: '{"picture":"https://example.com/a.png"}',
+    },
+    secretKey,
+  );
+  const filters = [{ kinds: [0], authors: [signed.pubkey] }];
+  // Round-trip through JSON like relay messages do, dropping nostr-tools' verification cache
+  const fromRelay = (overrides: Partial<NostrEvent> = {}): NostrEvent =>
+    JSON.parse(JSON.stringify({ ...signed, ...overrides }));
+
+  it('should accept signed events matching the filter', () => {
+    expect(getEventRejection(fromRelay(), filters)).toBeNull();
+  });
+
+  it('should reject tampered content and forged signatures', () => {
+    expect(
+      getEventRejection(fromRelay({ content: '{"picture":"https://evil.com/x.png"}' }), filters),
+    ).toBe('invalid id or signature');
+    expect(getEventRejection(fromRelay({ sig: '0'.repeat(128) }), filters)).toBe(
+      'invalid id or signature',
+    );
+  });
+
+  it('should keep the signed pubkey when the content claims another one', () => {
+    const other = 'f'.repeat(64);
+    const profile = parseProfileEvent(
+      fromRelay({
+        content: JSON.stringify({ pubkey: other, picture: 'https://example.com/a.png' }),
+      }),
+    );
+    expect(profile).toMatchObject({ pubkey: signed.pubkey, picture: 'https://example.com/a.png' });
+
+    for (const content of ['null', '"text"', '[1,2]']) {
+      expect(parseProfileEvent(fromRelay({ content }))).toBeNull();
+    }
+  });
+
+  it('should reject events outside the subscription filter', () => {
+    expect(getEventRejection(fromRelay(), [{ kinds: [0], authors: ['f'.repeat(64)] }])).toBe(
+      'event does not match subscription filter',
+    );
+    expect(getEventRejection(fromRelay(), [{ kinds: [3] }])).toBe(
+      'event does not match subscription filter',
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Env, ProfileWarmMessage } from '../types';
+import { getCacheKey, getBannerCacheKey } from '../utils/cache';
+import { FetchCoalescer } from '../services/coalescer';
+import {
+  getRetryDelay,
+  handleProfileQueue,
+  toWarmMessage,
+  warmProfile,
+} from '../services/profileQueue';
+import { getEdgeCacheKey } from '../utils/edgeCache';
+import { createKv } from './helpers';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Profile Queue', () => {
+  const pubkey = 'e0f6050d930a61323bac4a5b47d58e961da2919834f3f58f3b312c2918852b55';
+
+  it('should only keep the fields the consumer needs', () => {
+    const message = toWarmMessage({
+      pubkey,
+      name: 'alice',
+      about: 'x'.repeat(100000),
+      picture: 'https://example.com/a.png',
+      created_at: 1700000000,
+    });
+    expect(message.profile).toEqual({
+      pubkey,
+      picture: 'https://example.com/a.png',
+      created_at: 1700000000,
+      relay: undefined,
+    });
+  });
+
+  it('should render the size a batch lookup asked for along with the warm sizes', async () => {
+    const fetched: string[] = [];
+    vi.spyOn(FetchCoalescer.prototype, 'fetchVariant').mockImplementation(async (job) => {
+      fetched.push(job.variant.cacheKey);
+      return { body: new ArrayBuffer(0), contentType: 'image/webp', etag: '""', lastModified: 0 };
+    });
+    const env = { PROFILE_KV: createKv().namespace } as unknown as Env;
+    const profile = { pubkey, picture: 'https://example.com/a.png', created_at: 1700000000 };
+
+    await warmProfile(env, toWarmMessage(profile, 800, 'webp'));
+    await warmProfile(env, toWarmMessage(profile, 400));
+
+    expect(fetched).toEqual([
+      getCacheKey(pubkey, 200),
+      getCacheKey(pubkey, 400),
+      getCacheKey(pubkey, 800, 'webp'),
+      getCacheKey(pubkey, 200),
+      getCacheKey(pubkey, 400),
+    ]);
+  });
+
+  it('should purge edge copies of every variant when a new picture is rendered', async () => {
+    vi.spyOn(FetchCoalescer.prototype, 'fetchVariant').mockResolvedValue({
+      body: new ArrayBuffer(0),
+      contentType: 'image/webp',
+      etag: '""',
+      lastModified: 0,
+    });
+    const deleted: string[] = [];
+    vi.stubGlobal('caches', { default: { delete: async (key: string) => deleted.push(key) } });
+    const origin = 'https://avatars.example.com';
+    const banner = getBannerCacheKey(pubkey, 1500, 500);
+    const metadata = {
+      pubkey,
+      originalUrl: 'https://example.com/old.png',
+      sizes: { [getCacheKey(pubkey, 800, 'webp')]: { key: 'k' } },
+      banners: { [banner]: { key: 'k' } },
+      fetchedAt: Date.now(),
+      profileUpdatedAt: 0,
+    };
+    const env = {
+      PROFILE_KV: createKv({ [`profile:${pubkey}`]: metadata }).namespace,
+      IMAGE_CACHE_DURATION: '604800',
+      PUBLIC_ORIGIN: origin,
+    } as unknown as Env;
+
+    await warmProfile(
+      env,
+      toWarmMessage({ pubkey, picture: 'https://example.com/new.png', created_at: 1700000000 }),
+    );
+
+    expect(deleted).toEqual(
+      expect.arrayContaining([
+        getEdgeCacheKey(
+          origin,
+          { cacheKey: getCacheKey(pubkey, 800, 'webp'), format: 'webp' },
+          null,
+        ),
+        getEdgeCacheKey(origin, { cacheKey: banner }, 'image/webp'),
+        getEdgeCacheKey(origin, { cacheKey: banner }, null),
+      ]),
+    );
+  });
+
+  it('should back off exponentially between retries', () => {
+    expect([1, 2, 3, 10].map(getRetryDelay)).toEqual([30, 60, 120, 600]);
+  });
+
+  it('should retry failures and dead-letter them once retries run out', async () => {
+    const kv = createKv();
+    const env = {
+      PROFILE_KV: kv.namespace,
+      MAX_IMAGE_SIZE: '10485760',
+      ALLOWED_IMAGE_TYPES: 'image/png',
+    } as unknown as Env;
+
+    const outcomes: string[] = [];
+    const message = (attempts: number) => ({
+      // No picture, so the pipeline fails before touching the network
+      body: { profile: { pubkey, created_at: 1700000000 } },
+      attempts,
+      ack: () => outcomes.push('ack'),
+      retry: (options?: { delaySeconds?: number }) =>
+        outcomes.push(`retry:${options?.delaySeconds}`),
+    });
+
+    await handleProfileQueue(
+      {
+        queue: 'yestr-face-profiles',
+        messages: [message(1), message(4)],
+      } as unknown as MessageBatch<ProfileWarmMessage>,
+      env,
+    );
+
+    expect(outcomes).toEqual(['retry:30', 'ack']);
+    expect(kv.read(`deadletter:${pubkey}`)).toMatchObject({ pubkey, attempts: 4 });
+    // Each failed attempt is recorded once by its fetch job
+    expect(kv.read(`profile:${pubkey}`).failureCount).toBe(2);
+  });
+});
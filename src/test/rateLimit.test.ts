@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { unstable_dev } from 'wrangler';
+import type { Unstable_DevWorker } from 'wrangler';
+import { consumeRateLimit, RateLimitState } from '../utils/rateLimit';
+
+describe('Rate Limit Algorithms', () => {
+  it('should enforce a sliding window', () => {
+    const options = { windowMs: 1000, maxRequests: 2 };
+    let state: RateLimitState = {};
+
+    const first = consumeRateLimit(state, options, 0);
+    state = first.state;
+    expect(first.decision).toMatchObject({ allowed: true, remaining: 1 });
+
+    const second = consumeRateLimit(state, options, 100);
+    state = second.state;
+    expect(second.decision).toMatchObject({ allowed: true, remaining: 0 });
+
+    const third = consumeRateLimit(state, options, 200);
+    state = third.state;
+    expect(third.decision).toMatchObject({ allowed: false, remaining: 0, resetAt: 1000 });
+
+    // The first request has left the window
+    expect(consumeRateLimit(state, options, 1001).decision.allowed).toBe(true);
+  });
+
+  it('should refill a token bucket over time', () => {
+    const options = { windowMs: 1000, maxRequests: 2, mode: 'token-bucket' as const };
+    let state: RateLimitState = {};
+
+    for (let i = 0; i < 2; i++) {
+      const result = consumeRateLimit(state, options, 0);
+      state = result.state;
+      expect(result.decision.allowed).toBe(true);
+    }
+
+    const blocked = consumeRateLimit(state, options, 0);
+    expect(blocked.decision.allowed).toBe(false);
+    expect(blocked.decision.resetAt).toBe(500);
+
+    // Half a window refills one token
+    const refilled = consumeRateLimit(blocked.state, options, 500);
+    expect(refilled.decision).toMatchObject({ allowed: true, remaining: 0 });
+  });
+});
+
+// Runs the worker with its Durable Objects in Miniflare
+describe('Distributed Rate Limiting', () => {
+  let worker: Unstable_DevWorker;
+
+  beforeAll(async () => {
+    worker = await unstable_dev('src/index.ts', {
+      experimental: { disableExperimentalWarning: true },
+      logLevel: 'none',
+    });
+  }, 60000);
+
+  afterAll(async () => {
+    await worker?.stop();
+  });
+
+  it('should report remaining requests and block once the limit is reached', async () => {
+    // Durable Object state persists between runs, so use fresh client identities
+    const headers = { 'CF-Connecting-IP': `test-${crypto.randomUUID()}` };
+
+    const first = await worker.fetch('/not-a-route', { headers });
+    expect(first.status).toBe(404);
+    expect(first.headers.get('X-RateLimit-Limit')).toBe('60');
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('59');
+
+    for (let i = 0; i < 59; i++) {
+      await (await worker.fetch('/not-a-route', { headers })).text();
+    }
+
+    const blocked = await worker.fetch('/not-a-route', { headers });
+    expect(blocked.status).toBe(429);
+    expect(blocked.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(blocked.headers.get('Retry-After')).toBeTruthy();
+
+    // Other clients have their own budget
+    const other = await worker.fetch('/not-a-route', {
+      headers: { 'CF-Connecting-IP': `test-${crypto.randomUUID()}` },
+    });
+    expect(other.status).toBe(404);
+  }, 60000);
+});
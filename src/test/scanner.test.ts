@@ -0,0 +1,86 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Env } from '../types';
+import { NostrService } from '../services/nostr';
+import { ProfileScanner } from '../services/profileScanner';
+import { StorageService } from '../services/storage';
+import { createQueue } from './helpers';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Profile Scanner', () => {
+  const now = 1700000000;
+  // 1200 profiles, one every 30 seconds over the last 10 hours
+  const relayEvents = Array.from({ length: 1200 }, (_, i) => ({
+    id: i.toString(16).padStart(64, '0'),
+    pubkey: i.toString(16).padStart(64, '0').replace(/^0/, 'f'),
+    created_at: now - i * 30,
+    kind: 0,
+    tags: [],
+    content: JSON.stringify({ picture: `https://example.com/${i}.png` }),
+    sig: '',
+  }));
+
+  const createScanner = (kv: Map<string, unknown>) => {
+    const relay = {
+      url: 'wss://relay.example.com',
+      rejectedCount: 0,
+      connect: async () => {},
+      disconnect: () => {},
+      // Newest first and capped at the limit, like a real relay
+      query: async ([filter]: { since: number; until: number; limit: number }[]) => ({
+        events: relayEvents
+          .filter((e) => e.created_at >= filter.since && e.created_at <= filter.until)
+          .slice(0, filter.limit),
+        eose: true,
+      }),
+    };
+    const storage = {
+      getScanCursor: async () => kv.get('scanner:cursor') || null,
+      putScanCursor: async (cursor: unknown) => void kv.set('scanner:cursor', cursor),
+      getBackfillJob: async () => kv.get('scanner:backfill') || null,
+      putBackfillJob: async (job: unknown) => void kv.set('scanner:backfill', job),
+      deleteBackfillJob: async () => void kv.delete('scanner:backfill'),
+      getProfileMetadata: async () => null,
+    };
+    const { sent, queue } = createQueue();
+
+    const scanner = new ProfileScanner(
+      {} as Env,
+      relay as unknown as NostrService,
+      storage as unknown as StorageService,
+      queue,
+    );
+    // Distinct profiles queued so far
+    const queued = () => new Set(sent.map(({ profile }) => profile.pubkey)).size;
+    return { scanner, queued };
+  };
+
+  it('should page past the limit and store a cursor', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(now * 1000);
+    const kv = new Map<string, unknown>();
+    const { scanner, queued } = createScanner(kv);
+
+    await scanner.scanRecentProfiles(500);
+
+    expect(queued()).toBe(1200);
+    expect(kv.get('scanner:cursor')).toMatchObject({ since: now });
+  });
+
+  it('should walk a backfill backwards in chunks and finish it', async () => {
+    const kv = new Map<string, unknown>();
+    const { scanner, queued } = createScanner(kv);
+    await scanner.startBackfill(now - 36000, now, 3 * 60 * 60);
+
+    expect(await scanner.runBackfill(2, 500)).toBe(true);
+    // Two inclusive 3 hour windows: now-3h..now and now-6h-1..now-3h-1
+    expect(queued()).toBe(721);
+    expect(kv.get('scanner:backfill')).toMatchObject({ until: now - 6 * 60 * 60 - 2 });
+
+    expect(await scanner.runBackfill(2, 500)).toBe(false);
+    expect(queued()).toBe(1200);
+    expect(kv.has('scanner:backfill')).toBe(false);
+  });
+});
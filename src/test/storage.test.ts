@@ -0,0 +1,255 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Env, GarbageCollection, ProfileMetadata, StorageStats } from '../types';
+import { getCacheKey } from '../utils/cache';
+import { NostrService } from '../services/nostr';
+import { ProfileScanner } from '../services/profileScanner';
+import { StorageService } from '../services/storage';
+import { ImagePipeline } from '../services/imagePipeline';
+import { ImageService } from '../services/image';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Content-Addressed Storage', () => {
+  const createPipelineStorage = () => {
+    const objects = new Map<
+      string,
+      {
+        body: ArrayBuffer;
+        httpMetadata?: R2HTTPMetadata;
+        customMetadata?: Record<string, string>;
+        uploaded: Date;
+      }
+    >();
+    const storage = {
+      getImage: async (key: string) => {
+        const object = objects.get(key);
+        return object ? { ...object, arrayBuffer: async () => object.body } : null;
+      },
+      headImage: async (key: string) => objects.get(key) || null,
+      putImage: async (
+        key: string,
+        body: ArrayBuffer,
+        httpMetadata?: R2HTTPMetadata,
+        customMetadata?: Record<string, string>,
+      ) => void objects.set(key, { body, httpMetadata, customMetadata, uploaded: new Date() }),
+      getProfileMetadata: async (pubkey: string) => {
+        // Yield like KV does, so concurrent jobs interleave
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        const stored = profiles.get(pubkey);
+        return stored ? (JSON.parse(stored) as ProfileMetadata) : null;
+      },
+      putProfileMetadata: async (metadata: ProfileMetadata) => {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        profiles.set(metadata.pubkey, JSON.stringify(metadata));
+      },
+    };
+    const profiles = new Map<string, string>();
+    return { objects, profiles, storage: storage as unknown as StorageService };
+  };
+
+  it('should render a picture shared by several profiles once, with a stable ETag', async () => {
+    const { objects, storage } = createPipelineStorage();
+    const source = new TextEncoder().encode('same picture bytes').buffer;
+    let renders = 0;
+    const imageService = {
+      fetchImage: async () => ({ buffer: source, strategy: 'direct' }),
+      probeImage: () => ({ format: 'png', width: 800, height: 800, frames: 1 }),
+      processImage: async () => {
+        renders++;
+        return {
+          buffer: new Uint8Array([1, 2, 3]).buffer,
+          contentType: 'image/webp',
+          format: 'webp',
+          width: 400,
+          height: 400,
+          size: 3,
+        };
+      },
+    } as unknown as ImageService;
+    const pipeline = new ImagePipeline(storage, imageService);
+
+    const render = (pubkey: string) =>
+      pipeline.processVariant(
+        { pubkey, picture: 'https://example.com/shared.png', created_at: 1700000000 },
+        { kind: 'avatar', pubkey, width: 400, height: 400, cacheKey: getCacheKey(pubkey, 400) },
+        null,
+      );
+
+    const first = await render('a'.repeat(64));
+    const second = await render('b'.repeat(64));
+
+    expect(renders).toBe(1);
+    expect(second.cachedImage.key).toBe(first.cachedImage.key);
+    expect(second.cachedImage.etag).toBe(first.cachedImage.etag);
+    expect(second.processedImage.format).toBe('webp');
+    expect([...objects.keys()].sort()).toEqual([
+      `originals/${first.cachedImage.hash}`,
+      `variants/${first.cachedImage.hash}/400x400.auto`,
+    ]);
+  });
+
+  it('should keep every variant when jobs for one profile finish together', async () => {
+    const { objects, profiles, storage } = createPipelineStorage();
+    const source = new TextEncoder().encode('picture bytes').buffer;
+    let downloads = 0;
+    const imageService = {
+      fetchImage: async () => {
+        downloads++;
+        return { buffer: source, strategy: 'direct' };
+      },
+      probeImage: () => ({ format: 'png', width: 800, height: 800, frames: 1 }),
+      processImage: async (_buffer: ArrayBuffer, options: { width: number; height: number }) => ({
+        buffer: new Uint8Array([1]).buffer,
+        contentType: 'image/webp',
+        format: 'webp',
+        width: options.width,
+        height: options.height,
+        size: 1,
+      }),
+    } as unknown as ImageService;
+    const pipeline = new ImagePipeline(storage, imageService);
+    const pubkey = 'c'.repeat(64);
+    const profile = { pubkey, picture: 'https://example.com/p.png', created_at: 1700000000 };
+    const render = (size: number) =>
+      pipeline.processVariant(
+        profile,
+        { kind: 'avatar', pubkey, width: size, height: size, cacheKey: getCacheKey(pubkey, size) },
+        null,
+      );
+
+    await Promise.all([render(100), render(200), render(400)]);
+
+    const metadata = JSON.parse(profiles.get(pubkey)!) as ProfileMetadata;
+    expect(Object.keys(metadata.sizes).sort()).toEqual(
+      [100, 200, 400].map((size) => getCacheKey(pubkey, size)).sort(),
+    );
+    expect(downloads).toBe(3);
+
+    // Another size of the same picture renders from the stored original
+    const stored = JSON.parse(profiles.get(pubkey)!) as ProfileMetadata;
+    await pipeline.processVariant(
+      profile,
+      { kind: 'avatar', pubkey, width: 64, height: 64, cacheKey: getCacheKey(pubkey, 64) },
+      stored,
+    );
+    expect(downloads).toBe(3);
+    expect(objects.has(`variants/${stored.sizes[getCacheKey(pubkey, 100)].hash}/64x64.auto`)).toBe(
+      true,
+    );
+
+    // Unless the caller asks for the source again
+    await pipeline.processVariant(
+      profile,
+      { kind: 'avatar', pubkey, width: 32, height: 32, cacheKey: getCacheKey(pubkey, 32) },
+      stored,
+      true,
+    );
+    expect(downloads).toBe(4);
+  });
+
+  it('should sweep blobs no profile references', async () => {
+    const old = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    const r2 = [
+      'originals/h1',
+      'variants/h1/400x400.auto',
+      'originals/h2',
+      'variants/h2/400x400.auto',
+      'avatars/abc/400x400.webp',
+    ];
+    const fresh = 'variants/h3/400x400.auto';
+    const deleted: string[] = [];
+    const metadata = {
+      pubkey: 'abc',
+      originalUrl: 'https://example.com/a.png',
+      sizes: {
+        'avatar:abc:s400': {
+          key: 'variants/h1/400x400.auto',
+          hash: 'h1',
+          contentType: 'image/png',
+          etag: '',
+          lastModified: 0,
+        },
+      },
+      fetchedAt: Date.now(),
+      profileUpdatedAt: 0,
+    };
+    // Not fetched for 31 days, so dropped and its blobs swept
+    const expired = {
+      ...metadata,
+      pubkey: 'def',
+      sizes: {
+        'avatar:def:s400': {
+          ...metadata.sizes['avatar:abc:s400'],
+          key: 'variants/h2/400x400.auto',
+          hash: 'h2',
+        },
+      },
+      fetchedAt: Date.now() - 31 * 24 * 60 * 60 * 1000,
+    };
+    const profiles = new Map<string, ProfileMetadata>([
+      ['abc', metadata],
+      ['def', expired],
+    ]);
+    const pageOf = <T>(items: T[], cursor: string | undefined, limit: number) => {
+      const offset = parseInt(cursor || '0');
+      const next = offset + limit;
+      return { items: items.slice(offset, next), more: next < items.length, cursor: `${next}` };
+    };
+    const env = {
+      PROFILE_KV: {
+        list: async ({ cursor, limit }: { cursor?: string; limit: number }) => {
+          const page = pageOf([...profiles.keys()], cursor, limit);
+          return {
+            keys: page.items.map((pubkey) => ({ name: `profile:${pubkey}` })),
+            list_complete: !page.more,
+            cursor: page.cursor,
+          };
+        },
+      },
+    } as unknown as Env;
+    let gc: GarbageCollection | null = null;
+    const storage = {
+      getProfileMetadata: async (pubkey: string) => profiles.get(pubkey) || null,
+      deleteProfileMetadata: async (pubkey: string) => void profiles.delete(pubkey),
+      listImages: async (prefix: string, cursor: string | undefined, limit: number) => {
+        const objects = [
+          ...r2
+            .filter((key) => key.startsWith(prefix))
+            .map((key) => ({ key, uploaded: old, size: 100 })),
+          ...(fresh.startsWith(prefix) ? [{ key: fresh, uploaded: new Date(), size: 100 }] : []),
+        ];
+        const page = pageOf(objects, cursor, limit);
+        return { objects: page.items, truncated: page.more, cursor: page.cursor };
+      },
+      deleteImage: async (key: string) => void deleted.push(key),
+      putStats: async (value: StorageStats) => void (stats = value),
+      getGarbageCollection: async () => gc && JSON.parse(JSON.stringify(gc)),
+      putGarbageCollection: async (state: GarbageCollection) => void (gc = state),
+      deleteGarbageCollection: async () => void (gc = null),
+    } as unknown as StorageService;
+    let stats: StorageStats | undefined;
+
+    const scanner = new ProfileScanner(env, {} as NostrService, storage, { send: async () => {} });
+    // Nothing to continue until a collection is started
+    expect(await scanner.collectGarbage()).toBe(false);
+
+    // One page of one key per run
+    let runs = 1;
+    for (let more = await scanner.collectGarbage(true, 1, 1); more; runs++) {
+      more = await scanner.collectGarbage(false, 1, 1);
+    }
+
+    expect(runs).toBeGreaterThan(5);
+    expect(gc).toBeNull();
+    expect([...profiles.keys()]).toEqual(['abc']);
+    expect(deleted.sort()).toEqual([
+      'avatars/abc/400x400.webp',
+      'originals/h2',
+      'variants/h2/400x400.auto',
+    ]);
+    expect(stats).toMatchObject({ totalProfiles: 1, totalImages: 3, storageUsed: 300 });
+  });
+});
@@ -0,0 +1,166 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { Env, ImageFetchError } from '../types';
+import { getCacheKey } from '../utils/cache';
+import { FetchCoalescer } from '../services/coalescer';
+import { finalizeEvent, generateSecretKey } from 'nostr-tools';
+import { StorageService } from '../services/storage';
+import { handleProfileUpdate } from '../handlers/webhook';
+import { sha256Hex } from '../utils/hash';
+import { createKv } from './helpers';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('Profile Update Webhook', () => {
+  const url = 'https://avatars.example.com/webhook/profile-update';
+  const userKey = generateSecretKey();
+  const now = Math.floor(Date.now() / 1000);
+  const profileEvent = (content: object, createdAt = now, secretKey = userKey) =>
+    JSON.stringify(
+      finalizeEvent(
+        { kind: 0, created_at: createdAt, tags: [], content: JSON.stringify(content) },
+        secretKey,
+      ),
+    );
+  const post = async (body: string, secretKey = userKey) => {
+    const auth = finalizeEvent(
+      {
+        kind: 27235,
+        created_at: now,
+        tags: [
+          ['u', url],
+          ['method', 'POST'],
+          ['payload', await sha256Hex(body)],
+        ],
+        content: '',
+      },
+      secretKey,
+    );
+    return new Request(url, {
+      method: 'POST',
+      headers: { Authorization: `Nostr ${btoa(JSON.stringify(auth))}` },
+      body,
+    });
+  };
+  const createEnv = (profileUpdatedAt: number) => {
+    const event = JSON.parse(profileEvent({}));
+    const kv = createKv({
+      [`profile:${event.pubkey}`]: {
+        pubkey: event.pubkey,
+        originalUrl: 'https://example.com/old.png',
+        sizes: { [getCacheKey(event.pubkey, 200)]: { key: 'variants/old/200x200.auto' } },
+        fetchedAt: 0,
+        profileUpdatedAt,
+        failureCount: 4,
+        lastFailure: Date.now(),
+      },
+    });
+    const env = { PROFILE_KV: kv.namespace } as unknown as Env;
+    return { kv, env, key: `profile:${event.pubkey}` };
+  };
+
+  it('should only accept events signed by the NIP-98 signer for this exact body', async () => {
+    const { env } = createEnv(0);
+    const body = profileEvent({ name: 'alice' });
+
+    const unsigned = await handleProfileUpdate(new Request(url, { method: 'POST', body }), env);
+    expect(unsigned.status).toBe(401);
+
+    const tampered = await post(body);
+    const swapped = await handleProfileUpdate(
+      new Request(tampered, { body: profileEvent({ name: 'mallory' }) }),
+      env,
+    );
+    expect(swapped.status).toBe(401);
+
+    const otherSigner = await handleProfileUpdate(await post(body, generateSecretKey()), env);
+    expect(otherSigner.status).toBe(400);
+    expect(await otherSigner.json()).toMatchObject({
+      error: 'Rejected event: event does not match subscription filter',
+    });
+  });
+
+  it('should answer 401 to Nostr headers that are not events', async () => {
+    const { env } = createEnv(0);
+    const body = profileEvent({ name: 'alice' });
+    for (const payload of ['{}', 'null', '[]', '"event"', '{"tags":null}']) {
+      const response = await handleProfileUpdate(
+        new Request(url, {
+          method: 'POST',
+          body,
+          headers: { Authorization: `Nostr ${btoa(payload)}` },
+        }),
+        env,
+      );
+      expect(response.status).toBe(401);
+    }
+  });
+
+  it('should reject events older than the cached profile', async () => {
+    const { env } = createEnv(now * 1000);
+    const response = await handleProfileUpdate(await post(profileEvent({}, now - 60)), env);
+    expect(response.status).toBe(409);
+  });
+
+  it('should update metadata and drop images the profile no longer has', async () => {
+    const { kv, env, key } = createEnv((now - 3600) * 1000);
+    const response = await handleProfileUpdate(await post(profileEvent({ name: 'alice' })), env);
+
+    expect(response.status).toBe(200);
+    expect(kv.read(key)).toMatchObject({
+      originalUrl: '',
+      sizes: {},
+      profileUpdatedAt: now * 1000,
+      failureCount: 0,
+    });
+  });
+
+  it('should accept the first event after a failure for an unknown profile', async () => {
+    const env = { PROFILE_KV: createKv().namespace } as unknown as Env;
+    const body = profileEvent({ name: 'alice' }, now - 60);
+
+    await new StorageService(env).recordFailure(
+      JSON.parse(body).pubkey,
+      new ImageFetchError('Profile not on the relay yet', 404),
+    );
+    const response = await handleProfileUpdate(await post(body), env);
+    expect(response.status).toBe(200);
+  });
+
+  it('should render under the signer whatever pubkey the content names', async () => {
+    const env = { PROFILE_KV: createKv().namespace } as unknown as Env;
+    const rendered: string[] = [];
+    vi.spyOn(FetchCoalescer.prototype, 'fetchVariant').mockImplementation(async (job) => {
+      rendered.push(job.variant.pubkey, job.profile!.pubkey);
+      return { body: new ArrayBuffer(0), contentType: 'image/webp', etag: '""', lastModified: 0 };
+    });
+    const body = profileEvent({ pubkey: 'f'.repeat(64), picture: 'https://example.com/p.png' });
+    const signer = JSON.parse(body).pubkey;
+
+    const response = await handleProfileUpdate(await post(body), env);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ pubkey: signer });
+    expect(rendered.length).toBeGreaterThan(0);
+    expect(new Set(rendered)).toEqual(new Set([signer]));
+  });
+
+  it('should leave the old image stale when the refresh fails', async () => {
+    const { kv, env, key } = createEnv((now - 3600) * 1000);
+    Object.assign(env, { MAX_IMAGE_SIZE: '10485760', ALLOWED_IMAGE_TYPES: 'image/png' });
+
+    const response = await handleProfileUpdate(
+      await post(profileEvent({ picture: 'ftp://example.com/new.png' })),
+      env,
+    );
+
+    expect(response.status).toBe(502);
+    expect(kv.read(key)).toMatchObject({
+      originalUrl: 'https://example.com/old.png',
+      fetchedAt: 0,
+      profileUpdatedAt: now * 1000,
+    });
+  });
+});
@@ -6,18 +6,59 @@ export interface Env {
   // KV namespace binding
   PROFILE_KV: KVNamespace;
 
+  // Durable Object bindings (optional, falls back to in-isolate coalescing)
+  FETCH_COORDINATOR?: DurableObjectNamespace;
+  RATE_LIMITER?: DurableObjectNamespace;
+  // Totals request metrics across isolates (optional, per-isolate totals without it)
+  METRICS?: DurableObjectNamespace;
+
+  // Queue for pre-rendering changed profiles (optional, processed in-process without it)
+  PROFILE_QUEUE?: Queue<ProfileWarmMessage>;
+
   // Environment variables
   RELAY_URL: string;
+  // Extra relays queried in parallel with RELAY_URL (comma-separated)
+  RELAY_URLS?: string;
   MAX_IMAGE_SIZE: string;
   IMAGE_CACHE_DURATION: string;
+  // Seconds images stay in each data center's edge cache (default 300, 0 disables)
+  EDGE_CACHE_TTL?: string;
+  // Origin images are served from, e.g. https://avatars.yestr.app, so queue
+  // consumers with no request can purge its edge cache
+  PUBLIC_ORIGIN?: string;
   DEFAULT_CACHE_CONTROL: string;
   ALLOWED_IMAGE_TYPES: string;
+  // debug, info (default), warn or error
+  LOG_LEVEL?: string;
+  // Outbound image fetch policy: comma-separated ports (default 80,443),
+  // hosts blocked with their subdomains, and the redirect hop limit (default 3)
+  FETCH_ALLOWED_PORTS?: string;
+  FETCH_BLOCKED_HOSTS?: string;
+  FETCH_MAX_REDIRECTS?: string;
+  // "true" allows private and loopback addresses, for local development only
+  FETCH_ALLOW_PRIVATE_ADDRESSES?: string;
+  // Limits checked against image headers before decoding (defaults 16777216 pixels, 20:1, 500 frames)
+  MAX_IMAGE_PIXELS?: string;
+  MAX_IMAGE_ASPECT_RATIO?: string;
+  MAX_IMAGE_FRAMES?: string;
+  // JSON array of fetch strategies replacing the default direct-then-proxy chain
+  FETCH_STRATEGIES?: string;
+  // Endpoint of the default proxy strategy
+  IMAGE_PROXY_URL?: string;
+  // 'true' also sends IMAGE_PROXY_SECRET as ?secret= while the proxy migrates to signatures
+  IMAGE_PROXY_LEGACY_SECRET?: string;
 
   // Secrets
   R2_ACCESS_KEY_ID?: string;
   R2_SECRET_ACCESS_KEY?: string;
   ALLOWED_ORIGINS?: string;
   IMAGE_PROXY_SECRET: string;
+  // JSON map of API key to { maxRequests, windowMs?, mode? }
+  RATE_LIMIT_API_KEYS?: string;
+  // Bearer token for /admin/*
+  ADMIN_TOKEN?: string;
+  // Hex pubkeys allowed to use /admin/* with NIP-98 auth (comma-separated)
+  ADMIN_PUBKEYS?: string;
 }
 
 // Nostr types
@@ -41,36 +82,154 @@ export interface NostrProfile {
   nip05?: string;
   lud16?: string;
   created_at: number;
+  // Relay that supplied the kind:0 event
+  relay?: string;
 }
 
 // Storage types
+export type ProfileImageKind = 'avatar' | 'banner';
+
+export interface CachedImage {
+  key: string;
+  contentType: string;
+  etag: string;
+  lastModified: number;
+  // SHA-256 of the source image the variant was rendered from
+  hash?: string;
+}
+
+// A single rendition of a profile image that we cache and serve
+export interface ImageVariant {
+  kind: ProfileImageKind;
+  pubkey: string;
+  width: number;
+  height: number;
+  format?: ImageFormat;
+  // Keep the animation of animated sources instead of rendering the first frame
+  animated?: boolean;
+  cacheKey: string;
+}
+
 export interface ProfileMetadata {
   pubkey: string;
   originalUrl: string;
   sizes: {
-    [size: string]: {
-      key: string;
-      contentType: string;
-      etag: string;
-      lastModified: number;
-    };
+    [size: string]: CachedImage;
+  };
+  // Dimensions the source images declare, probed before decoding
+  originalImage?: ImageProbe;
+  // Fetch strategy that last downloaded each image, tried first next time
+  fetchStrategy?: string;
+  bannerUrl?: string;
+  bannerImage?: ImageProbe;
+  bannerFetchStrategy?: string;
+  banners?: {
+    [size: string]: CachedImage;
   };
   fetchedAt: number;
   profileUpdatedAt: number;
+  profileRelay?: string;
   failureCount?: number;
   lastFailure?: number;
+  lastError?: FailureRecord;
+}
+
+// The most recent fetch failure of a profile, replayed during its backoff window
+export interface FailureRecord {
+  name: string;
+  message: string;
+  statusCode?: number;
+  originalUrl?: string;
+  pubkey?: string;
+  kind?: ProfileImageKind;
+}
+
+export type ImageFormat = 'webp' | 'jpeg' | 'png';
+
+export interface ImageProbe {
+  format: 'jpeg' | 'png' | 'webp' | 'gif';
+  width: number;
+  height: number;
+  frames: number;
+  // GIF frames declare their own size and are decoded at it, so the largest
+  // one is kept when it doesn't fit inside the canvas
+  largestFrame?: { width: number; height: number };
+}
+
+// Queue message asking the consumer to render a changed profile's avatar
+export interface ProfileWarmMessage {
+  profile: NostrProfile;
+  // An avatar size a batch lookup asked for, rendered along with the warm sizes
+  size?: number;
+  format?: ImageFormat;
+}
+
+// Progress of the profile scanner, in event created_at seconds
+export interface ScanCursor {
+  // Everything up to here has been scanned
+  since: number;
+  // Set when a run stopped paging early: events in (since, resumeUntil] still need reading
+  resumeUntil?: number;
+  // Upper bound of the interrupted run, becomes `since` once it is finished
+  targetUntil?: number;
+  updatedAt: number;
+}
+
+// A manual backfill walking backwards from `until` to `since`
+export interface BackfillJob {
+  since: number;
+  until: number;
+  chunkSeconds?: number;
+  updatedAt?: number;
+}
+
+// A garbage collection spread over several cron runs: the mark phase pages
+// through the profiles, the sweep phase through the blob prefixes
+export interface GarbageCollection {
+  phase: 'mark' | 'sweep';
+  startedAt: number;
+  // KV or R2 list cursor within the current phase
+  cursor?: string;
+  // Index of the blob prefix being swept
+  prefix: number;
+  // R2 keys some profile still references
+  referenced: string[];
+  totalProfiles: number;
+  totalImages: number;
+  storageUsed: number;
+  expired: number;
+  deleted: number;
+}
+
+// A warm job that ran out of retries, kept for inspection
+export interface DeadLetterRecord {
+  pubkey: string;
+  message: ProfileWarmMessage;
+  error: string;
+  attempts: number;
+  failedAt: number;
+}
+
+export interface Nip05Record {
+  identifier: string;
+  pubkey: string | null;
+  relays: string[];
+  resolvedAt: number;
 }
 
 export interface ImageProcessingOptions {
   width?: number;
   height?: number;
-  format?: 'webp' | 'jpeg' | 'png';
+  format?: ImageFormat;
   quality?: number;
+  animated?: boolean;
 }
 
 export interface ProcessedImage {
   buffer: ArrayBuffer;
   contentType: string;
+  // Animated renditions are always GIF
+  format: ImageFormat | 'gif';
   width: number;
   height: number;
   size: number;
@@ -80,7 +239,34 @@ export interface ProcessedImage {
 export interface AvatarRequest {
   pubkey: string;
   size?: number;
-  format?: 'webp' | 'jpeg' | 'png';
+  format?: ImageFormat;
+  fallback?: boolean;
+  animated?: boolean;
+  relays?: string[];
+}
+
+export interface BannerRequest {
+  pubkey: string;
+  width: number;
+  height: number;
+  format?: ImageFormat;
+  relays?: string[];
+}
+
+export interface BatchAvatarRequest {
+  pubkeys: string[];
+  size: number;
+  format?: ImageFormat;
+}
+
+export interface BatchAvatarEntry {
+  url: string;
+  cacheStatus: 'HIT' | 'STALE' | 'MISS';
+  etag: string | null;
+  originalUrl: string | null;
+  queued: boolean;
+  failed: boolean;
+  failureCount: number;
 }
 
 export interface HealthCheckResponse {
@@ -90,27 +276,70 @@ export interface HealthCheckResponse {
   services: {
     r2: 'connected' | 'error';
     kv: 'connected' | 'error';
-    relay: 'connected' | 'error';
+    // 'unchecked' unless the request asked for ?deep=true
+    relay: 'connected' | 'error' | 'unchecked';
   };
+  relays?: RelayHealth[];
   stats?: {
     totalProfiles: number;
     totalImages: number;
+    storageUsed: number;
     cacheHitRate: number;
   };
 }
 
+export interface RelayHealth {
+  url: string;
+  status: 'connected' | 'timeout' | 'error';
+  // Time from opening the connection to EOSE, or until giving up
+  latencyMs: number;
+  error?: string;
+}
+
+// Storage totals counted by the daily garbage collection
+export interface StorageStats {
+  totalProfiles: number;
+  totalImages: number;
+  storageUsed: number;
+  updatedAt: number;
+}
+
 // Error types
+// Upstream failures another fetch strategy may get around
+export type FetchFailureReason = '403' | '429' | '5xx' | 'timeout' | 'html';
+
 export class ImageFetchError extends Error {
   constructor(
     message: string,
     public statusCode: number = 500,
     public originalUrl?: string,
+    // Set when the status code alone doesn't say what went wrong
+    public reason?: FetchFailureReason,
   ) {
     super(message);
     this.name = 'ImageFetchError';
   }
 }
 
+// Source images over the pixel, aspect ratio or frame limits. Corrupt images
+// are 422s too, so clients and metrics tell the two apart by `code`
+export class ImageLimitError extends ImageFetchError {
+  readonly code = 'image_too_large';
+
+  constructor(message: string, originalUrl?: string) {
+    super(message, 422, originalUrl);
+    this.name = 'ImageLimitError';
+  }
+}
+
+// Malformed client input, answered with a 400
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
 export class ProfileNotFoundError extends Error {
   constructor(public pubkey: string) {
     super(`Profile not found: ${pubkey}`);
@@ -0,0 +1,17 @@
+// Wrangler bundles `.wasm` imports as precompiled WebAssembly modules
+declare module '*.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
+
+// These ship a .d.ts typing the wasm-bindgen exports rather than the module
+// import, which the wildcard above doesn't override
+declare module '@jsquash/png/codec/pkg/squoosh_png_bg.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
+
+declare module '@jsquash/resize/lib/resize/pkg/squoosh_resize_bg.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
@@ -0,0 +1,66 @@
+import { validateEvent, verifyEvent } from 'nostr-tools';
+import { NostrEvent } from '../types';
+import { sha256Hex } from './hash';
+
+const HTTP_AUTH_KIND = 27235;
+// NIP-98 suggests a 60 second window around the server's clock
+const MAX_CLOCK_SKEW = 60;
+
+interface AuthEnv {
+  ADMIN_TOKEN?: string;
+  ADMIN_PUBKEYS?: string;
+}
+
+// Compares digests so the time taken doesn't depend on where the inputs differ
+async function secretsEqual(a: string, b: string): Promise<boolean> {
+  const [hashA, hashB] = await Promise.all([sha256Hex(a), sha256Hex(b)]);
+  let diff = 0;
+  for (let i = 0; i < hashA.length; i++) {
+    diff |= hashA.charCodeAt(i) ^ hashB.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// Verifies `Authorization: Nostr <base64 event>` (NIP-98) and returns the
+// signer's pubkey. The event must be signed for this exact URL and method,
+// and when a body is given, carry its SHA-256 in a `payload` tag.
+export async function verifyNip98Auth(request: Request, body?: string): Promise<string | null> {
+  const header = request.headers.get('Authorization');
+  if (!header?.startsWith('Nostr ')) return null;
+
+  let event: NostrEvent;
+  try {
+    event = JSON.parse(atob(header.slice('Nostr '.length).trim()));
+  } catch {
+    return null;
+  }
+  // verifyEvent throws on anything that isn't shaped like an event, e.g. `null`
+  if (!validateEvent(event) || !verifyEvent(event) || event.kind !== HTTP_AUTH_KIND) return null;
+
+  const tag = (name: string) => event.tags.find((t) => t[0] === name)?.[1];
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - event.created_at) > MAX_CLOCK_SKEW) return null;
+  if (tag('u') !== request.url || tag('method')?.toUpperCase() !== request.method) return null;
+  if (body && tag('payload') !== (await sha256Hex(body))) return null;
+
+  return event.pubkey;
+}
+
+// Admins authenticate with the ADMIN_TOKEN bearer secret or a NIP-98 event
+// signed by one of ADMIN_PUBKEYS. Returns who made the request, for logs.
+export async function getAdminIdentity(request: Request, env: AuthEnv): Promise<string | null> {
+  const header = request.headers.get('Authorization') || '';
+
+  if (header.startsWith('Bearer ')) {
+    const token = header.slice('Bearer '.length).trim();
+    return env.ADMIN_TOKEN && (await secretsEqual(token, env.ADMIN_TOKEN)) ? 'token' : null;
+  }
+
+  const pubkey = await verifyNip98Auth(request);
+  const admins = (env.ADMIN_PUBKEYS || '')
+    .split(',')
+    .map((key) => key.trim().toLowerCase())
+    .filter(Boolean);
+
+  return pubkey && admins.includes(pubkey) ? pubkey : null;
+}
@@ -1,10 +1,82 @@
-export function getCacheKey(pubkey: string, size?: number, format?: string): string {
+import type { CachedImage, ImageVariant, ProfileImageKind, ProfileMetadata } from '../types';
+
+export function getCacheKey(
+  pubkey: string,
+  size?: number,
+  format?: string,
+  animated?: boolean,
+): string {
   const parts = ['avatar', pubkey];
   if (size) parts.push(`s${size}`);
   if (format) parts.push(format);
+  if (animated) parts.push('anim');
+  return parts.join(':');
+}
+
+export function getBannerCacheKey(
+  pubkey: string,
+  width: number,
+  height: number,
+  format?: string,
+): string {
+  const parts = ['banner', pubkey, `${width}x${height}`];
+  if (format) parts.push(format);
   return parts.join(':');
 }
 
+// Rebuilds the variant from its cache key, e.g. `avatar:<pk>:s400:webp:anim` or `banner:<pk>:1500x500`
+export function parseCacheKey(cacheKey: string): ImageVariant | null {
+  const [kind, pubkey, size, ...options] = cacheKey.split(':');
+  const animated = options.includes('anim');
+  const format = options.find((option) => option !== 'anim');
+  const dimensions = kind === 'avatar' ? size?.match(/^s(\d+)$/) : size?.match(/^(\d+)x(\d+)$/);
+  if (!dimensions || (kind !== 'avatar' && kind !== 'banner')) return null;
+
+  const width = parseInt(dimensions[1]);
+  return {
+    kind,
+    pubkey,
+    width,
+    height: kind === 'avatar' ? width : parseInt(dimensions[2]),
+    format: format as ImageVariant['format'],
+    animated: animated || undefined,
+    cacheKey,
+  };
+}
+
+// Every avatar and banner variant cached for a profile
+export function getAllCacheKeys(metadata: ProfileMetadata | null): string[] {
+  return metadata ? [...Object.keys(metadata.sizes), ...Object.keys(metadata.banners || {})] : [];
+}
+
+// R2 blobs are keyed by the SHA-256 of the source image, so profiles that
+// share a picture share its original and every rendition of it
+export function getOriginalR2Key(sourceHash: string): string {
+  return `originals/${sourceHash}`;
+}
+
+export function getVariantR2Key(
+  sourceHash: string,
+  width: number,
+  height: number,
+  format?: string,
+  animated?: boolean,
+): string {
+  return `variants/${sourceHash}/${width}x${height}${animated ? '-anim' : ''}.${format || 'auto'}`;
+}
+
+// Same source bytes and rendition give the same ETag, however often they are refetched
+export function getVariantEtag(
+  sourceHash: string,
+  width: number,
+  height: number,
+  format?: string,
+  animated?: boolean,
+): string {
+  const rendition = `${width}x${height}-${format || 'auto'}${animated ? '-anim' : ''}`;
+  return `"${sourceHash.slice(0, 32)}-${rendition}"`;
+}
+
 export function getCacheHeaders(isHit: boolean, maxAge: number = 3600): Headers {
   const headers = new Headers();
 
@@ -25,3 +97,36 @@ export function shouldRevalidate(metadata: { fetchedAt: number }, maxAge: number
   const age = Date.now() - metadata.fetchedAt;
   return age > maxAge * 1000;
 }
+
+const FAILURE_BACKOFF_BASE = 60; // seconds
+const FAILURE_BACKOFF_MAX = 24 * 60 * 60; // 1 day
+
+// Wait after the nth consecutive failure: 1 minute, doubling up to a day
+export function getFailureBackoff(failureCount: number): number {
+  return Math.min(FAILURE_BACKOFF_BASE * 2 ** Math.max(0, failureCount - 1), FAILURE_BACKOFF_MAX);
+}
+
+// Seconds until a failing profile image may be fetched again, 0 once its backoff has passed
+export function getRetryAfter(
+  metadata: ProfileMetadata,
+  kind: ProfileImageKind,
+  now: number = Date.now(),
+): number {
+  const { failureCount, lastFailure, lastError } = metadata;
+  if (!failureCount || !lastFailure || !lastError) return 0;
+  if ((lastError.kind || 'avatar') !== kind) return 0;
+
+  const retryAt = lastFailure + getFailureBackoff(failureCount) * 1000;
+  return Math.max(0, Math.ceil((retryAt - now) / 1000));
+}
+
+export function getCachedVariants(
+  metadata: ProfileMetadata,
+  kind: ProfileImageKind,
+): { [size: string]: CachedImage } {
+  if (kind === 'banner') {
+    metadata.banners = metadata.banners || {};
+    return metadata.banners;
+  }
+  return metadata.sizes;
+}
@@ -0,0 +1,69 @@
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+// Weak comparison, as required for If-None-Match
+function etagMatches(header: string, etag: string): boolean {
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+  if (header.trim() === '*') return true;
+  return header.split(',').some((tag) => normalize(tag) === normalize(etag));
+}
+
+// True when the client's cached copy is still current. If-None-Match takes
+// precedence over If-Modified-Since, as in RFC 9110.
+export function isNotModified(request: Request, etag: string, lastModified: number): boolean {
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch) {
+    return etagMatches(ifNoneMatch, etag);
+  }
+
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !isNaN(since) && Math.floor(lastModified / 1000) * 1000 <= since;
+  }
+
+  return false;
+}
+
+// Parses a single `bytes=` range against a body of the given size. Returns null
+// when the whole body should be sent (no Range, multiple ranges, or a stale
+// If-Range) and 'unsatisfiable' when the range lies outside the body.
+export function parseRange(
+  request: Request,
+  size: number,
+  etag: string,
+): ByteRange | 'unsatisfiable' | null {
+  const header = request.headers.get('Range');
+  if (!header) return null;
+
+  const ifRange = request.headers.get('If-Range');
+  if (ifRange && ifRange.trim() !== etag) return null;
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const [, start, end] = match;
+
+  if (!start) {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(end);
+    if (suffix === 0) return 'unsatisfiable';
+    const length = Math.min(suffix, size);
+    return { offset: size - length, length };
+  }
+
+  const offset = parseInt(start);
+  if (offset >= size) return 'unsatisfiable';
+
+  const last = end ? Math.min(parseInt(end), size - 1) : size - 1;
+  if (last < offset) return null;
+
+  return { offset, length: last - offset + 1 };
+}
+
+export function getContentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.offset}-${range.offset + range.length - 1}/${size}`;
+}
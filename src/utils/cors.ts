@@ -16,8 +16,13 @@ export function getCorsHeaders(request: Request, env: { ALLOWED_ORIGINS?: string
   }
 
   // Set other CORS headers
-  headers.set('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
-  headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  headers.set('Access-Control-Allow-Methods', 'GET, HEAD, POST, DELETE, OPTIONS');
+  headers.set(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Authorization, X-API-Key, X-Request-Id',
+  );
+  // Lets browser clients quote the request ID in bug reports
+  headers.set('Access-Control-Expose-Headers', 'X-Request-Id');
   headers.set('Access-Control-Max-Age', '86400'); // 24 hours
 
   return headers;
@@ -0,0 +1,135 @@
+import type { ImageVariant } from '../types';
+import { parseCacheKey } from './cache';
+import { createLogger, errorFields, Logger } from './logger';
+
+// The Cache API of the data center serving the request, in front of KV and R2
+// for the hottest images. Entries are only purged in the data center that
+// handles the purge, so EDGE_CACHE_TTL bounds how long others keep old copies.
+
+export interface EdgeCacheEntry {
+  body: ArrayBuffer | ReadableStream | null;
+  contentType: string;
+  etag: string;
+  lastModified: number;
+  // When the profile was last checked, for stale-while-revalidate
+  fetchedAt: number;
+}
+
+interface EdgeCacheEnv {
+  EDGE_CACHE_TTL?: string;
+  LOG_LEVEL?: string;
+}
+
+const DEFAULT_EDGE_CACHE_TTL = 300;
+const KEY_PATH = '/__edge-cache/';
+const LAST_MODIFIED_HEADER = 'X-Image-Last-Modified';
+const FETCHED_AT_HEADER = 'X-Profile-Fetched-At';
+
+// Seconds; 0 turns the edge cache off
+export function getEdgeCacheTtl(env: EdgeCacheEnv): number {
+  const ttl = parseInt(env.EDGE_CACHE_TTL || '');
+  return ttl >= 0 ? ttl : DEFAULT_EDGE_CACHE_TTL;
+}
+
+// Collapses an Accept header to the image formats it allows, so a handful of
+// browsers don't split one image over hundreds of cache entries
+export function getAcceptBucket(accept: string | null): string {
+  return accept?.includes('image/webp') ? 'webp' : 'any';
+}
+
+// Requests that name a format get it whatever they accept
+export function getEdgeCacheKey(
+  origin: string,
+  variant: Pick<ImageVariant, 'cacheKey' | 'format'>,
+  accept: string | null,
+): string {
+  const url = new URL(KEY_PATH + encodeURIComponent(variant.cacheKey), origin);
+  if (!variant.format) url.searchParams.set('accept', getAcceptBucket(accept));
+  return url.toString();
+}
+
+function getEdgeCache(env: EdgeCacheEnv): Cache | null {
+  // Missing outside the Workers runtime, e.g. in unit tests
+  if (typeof caches === 'undefined' || getEdgeCacheTtl(env) === 0) return null;
+  // The WebWorker lib's CacheStorage type hides the Workers-only default cache
+  return (caches as unknown as { default: Cache }).default;
+}
+
+export async function matchEdgeCache(
+  env: EdgeCacheEnv,
+  request: Request,
+  variant: ImageVariant,
+  logger: Logger = createLogger(env),
+): Promise<(EdgeCacheEntry & { body: ArrayBuffer }) | null> {
+  const cache = getEdgeCache(env);
+  if (!cache) return null;
+
+  try {
+    const key = getEdgeCacheKey(request.url, variant, request.headers.get('Accept'));
+    const response = await cache.match(key);
+    if (!response) return null;
+
+    return {
+      body: await response.arrayBuffer(),
+      contentType: response.headers.get('Content-Type') || 'application/octet-stream',
+      etag: response.headers.get('ETag') || '',
+      lastModified: parseInt(response.headers.get(LAST_MODIFIED_HEADER) || '0'),
+      fetchedAt: parseInt(response.headers.get(FETCHED_AT_HEADER) || '0'),
+    };
+  } catch (error) {
+    logger.error('Error reading edge cache', errorFields(error));
+    return null;
+  }
+}
+
+// Only headers that are the same for every client are stored; CORS and cache
+// status headers are added again when the entry is served.
+export async function putEdgeCache(
+  env: EdgeCacheEnv,
+  request: Request,
+  variant: ImageVariant,
+  entry: EdgeCacheEntry,
+  logger: Logger = createLogger(env),
+): Promise<void> {
+  const cache = getEdgeCache(env);
+  if (!cache) return;
+
+  const headers = new Headers();
+  headers.set('Content-Type', entry.contentType);
+  headers.set('ETag', entry.etag);
+  headers.set('Cache-Control', `public, max-age=${getEdgeCacheTtl(env)}`);
+  headers.set(LAST_MODIFIED_HEADER, entry.lastModified.toString());
+  headers.set(FETCHED_AT_HEADER, entry.fetchedAt.toString());
+
+  try {
+    const key = getEdgeCacheKey(request.url, variant, request.headers.get('Accept'));
+    await cache.put(key, new Response(entry.body, { headers }));
+  } catch (error) {
+    logger.error('Error writing edge cache', errorFields(error));
+  }
+}
+
+// Deletes every entry of the given variants, one per Accept bucket when the
+// format is negotiated. Callers that replace or drop variants pass the keys
+// from before and after the change, so no old copy is left behind.
+export async function purgeEdgeCache(
+  env: EdgeCacheEnv,
+  origin: string,
+  cacheKeys: string[],
+  logger: Logger = createLogger(env),
+): Promise<void> {
+  const cache = getEdgeCache(env);
+  if (!cache) return;
+
+  const keys = [...new Set(cacheKeys)].flatMap((cacheKey) => {
+    const format = parseCacheKey(cacheKey)?.format;
+    const accepts = format ? [null] : ['image/webp', null];
+    return accepts.map((accept) => getEdgeCacheKey(origin, { cacheKey, format }, accept));
+  });
+
+  try {
+    await Promise.all(keys.map((key) => cache.delete(key)));
+  } catch (error) {
+    logger.error('Error purging edge cache', errorFields(error));
+  }
+}
@@ -0,0 +1,36 @@
+import { FailureRecord, ImageFetchError, ImageLimitError, ProfileNotFoundError } from '../types';
+
+// Errors are stored in KV and passed across the Durable Object boundary as
+// plain JSON; these keep the original error class and status on the way back
+export function toFailureRecord(error: unknown): FailureRecord {
+  if (error instanceof ProfileNotFoundError) {
+    return { name: error.name, message: error.message, statusCode: 404, pubkey: error.pubkey };
+  }
+
+  if (error instanceof ImageFetchError) {
+    return {
+      name: error.name,
+      message: error.message,
+      statusCode: error.statusCode,
+      originalUrl: error.originalUrl,
+    };
+  }
+
+  return { name: 'Error', message: error instanceof Error ? error.message : String(error) };
+}
+
+export function fromFailureRecord(record: FailureRecord): Error {
+  if (record.name === 'ProfileNotFoundError') {
+    return new ProfileNotFoundError(record.pubkey || '');
+  }
+
+  if (record.name === 'ImageLimitError') {
+    return new ImageLimitError(record.message, record.originalUrl);
+  }
+
+  if (record.name === 'ImageFetchError') {
+    return new ImageFetchError(record.message, record.statusCode, record.originalUrl);
+  }
+
+  return new Error(record.message);
+}
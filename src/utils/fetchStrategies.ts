@@ -0,0 +1,167 @@
+import { FetchFailureReason, ImageFetchError } from '../types';
+import { createLogger, errorFields, Logger } from './logger';
+
+// Ordered ways of downloading a source image. The first strategy is tried,
+// then each later one whose triggers match how the previous attempt failed.
+// FETCH_STRATEGIES replaces the default chain with a JSON array, e.g.
+// [{"name":"direct","type":"direct"},
+//  {"name":"proxy","type":"proxy","url":"https://proxy.example/fetch","secret":"PROXY_SECRET","on":["403","html"]}]
+
+export type FetchStrategyType = 'direct' | 'proxy' | 'archive';
+
+interface BaseStrategy {
+  // Stored in the profile metadata when the strategy succeeds
+  name: string;
+  // Failures of the previous attempt that make this strategy worth trying.
+  // Without it the strategy runs whenever it is reached.
+  on?: FetchFailureReason[];
+  // Sent on top of the default request headers, e.g. a browser User-Agent
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+export interface DirectStrategy extends BaseStrategy {
+  type: 'direct';
+}
+
+export interface ProxyStrategy extends BaseStrategy {
+  type: 'proxy';
+  url: string;
+  // Name of the Worker secret proxy requests are signed with
+  secret: string;
+  // Also send the secret as ?secret=, for proxies that don't check signatures
+  // yet. Deprecated, and removed in the next release.
+  legacySecret?: boolean;
+}
+
+export interface ArchiveStrategy extends BaseStrategy {
+  type: 'archive';
+  // Prefix the mirror puts before the original URL
+  url: string;
+}
+
+export type FetchStrategy = DirectStrategy | ProxyStrategy | ArchiveStrategy;
+
+interface FetchStrategyEnv {
+  FETCH_STRATEGIES?: string;
+  IMAGE_PROXY_URL?: string;
+  IMAGE_PROXY_SECRET?: string;
+  IMAGE_PROXY_LEGACY_SECRET?: string;
+  LOG_LEVEL?: string;
+}
+
+export const DEFAULT_FETCH_TIMEOUT = 10000;
+const DEFAULT_PROXY_URL = 'https://relay.yestr.social/proxy-image';
+const FAILURE_REASONS: FetchFailureReason[] = ['403', '429', '5xx', 'timeout', 'html'];
+const STRATEGY_TYPES: FetchStrategyType[] = ['direct', 'proxy', 'archive'];
+
+// Direct download, then the image proxy for hosts that block Workers
+function getDefaultStrategies(env?: FetchStrategyEnv): FetchStrategy[] {
+  const strategies: FetchStrategy[] = [{ name: 'direct', type: 'direct' }];
+  if (env?.IMAGE_PROXY_SECRET) {
+    strategies.push({
+      name: 'proxy',
+      type: 'proxy',
+      url: env.IMAGE_PROXY_URL || DEFAULT_PROXY_URL,
+      secret: 'IMAGE_PROXY_SECRET',
+      legacySecret: env.IMAGE_PROXY_LEGACY_SECRET === 'true',
+      on: ['403', 'html'],
+      timeoutMs: 15000,
+    });
+  }
+  return strategies;
+}
+
+// Why a configured strategy can't be used, or null if it can
+function getStrategyProblem(strategy: FetchStrategy): string | null {
+  if (!strategy?.name || typeof strategy.name !== 'string') return 'missing name';
+  if (!STRATEGY_TYPES.includes(strategy.type)) return `unknown type ${strategy.type}`;
+  if (strategy.type !== 'direct' && !strategy.url) return `${strategy.type} needs a url`;
+  if (strategy.type === 'proxy' && !strategy.secret) return 'proxy needs a secret';
+  if (strategy.on?.some((reason) => !FAILURE_REASONS.includes(reason))) {
+    return `unknown trigger in ${strategy.on.join(',')}`;
+  }
+  return null;
+}
+
+// An invalid FETCH_STRATEGIES is logged and the default chain used instead
+export function getFetchStrategies(
+  env?: FetchStrategyEnv,
+  logger: Logger = createLogger(env),
+): FetchStrategy[] {
+  if (!env?.FETCH_STRATEGIES) return getDefaultStrategies(env);
+
+  try {
+    const strategies = JSON.parse(env.FETCH_STRATEGIES) as FetchStrategy[];
+    if (!Array.isArray(strategies) || strategies.length === 0) {
+      throw new Error('expected a non-empty array');
+    }
+
+    for (const strategy of strategies) {
+      const problem = getStrategyProblem(strategy);
+      if (problem) throw new Error(`strategy ${strategy?.name}: ${problem}`);
+    }
+    return strategies;
+  } catch (error) {
+    logger.error('Invalid FETCH_STRATEGIES configuration', errorFields(error));
+    return getDefaultStrategies(env);
+  }
+}
+
+// The strategy that worked last time goes first; the rest keep their order
+export function orderStrategies(strategies: FetchStrategy[], preferred?: string): FetchStrategy[] {
+  const first = strategies.find((strategy) => strategy.name === preferred);
+  return first ? [first, ...strategies.filter((strategy) => strategy !== first)] : strategies;
+}
+
+// The trigger a failed attempt sets off, or null for failures another
+// strategy won't fix, like a 404 or an oversized image
+export function getFailureReason(error: unknown): FetchFailureReason | null {
+  if (!(error instanceof ImageFetchError)) return null;
+  if (error.reason) return error.reason;
+  if (error.statusCode === 403) return '403';
+  if (error.statusCode === 429) return '429';
+  if (error.statusCode >= 500) return '5xx';
+  return null;
+}
+
+export function shouldTryStrategy(strategy: FetchStrategy, lastError: unknown): boolean {
+  if (lastError === undefined || !strategy.on) return true;
+  const reason = getFailureReason(lastError);
+  return !!reason && strategy.on.includes(reason);
+}
+
+// The value of the Worker secret a strategy names. The names come from
+// FETCH_STRATEGIES, so they can't all be declared on Env.
+export function getWorkerSecret(env: object | undefined, name: string): string | undefined {
+  const value: unknown = env && Object.getOwnPropertyDescriptor(env, name)?.value;
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Headers proving the request comes from this service: an HMAC-SHA256 over
+// the timestamp and image URL, so the secret itself is never sent
+export async function getProxySignatureHeaders(
+  secret: string,
+  url: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): Promise<Record<string, string>> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    new TextEncoder().encode(`${timestamp}.${url}`),
+  );
+
+  return {
+    'X-Proxy-Timestamp': timestamp.toString(),
+    'X-Proxy-Signature': Array.from(new Uint8Array(signature))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join(''),
+  };
+}
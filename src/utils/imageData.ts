@@ -0,0 +1,45 @@
+// Workers have no global ImageData constructor, so we build plain objects
+// with the same shape the codecs expect.
+export function createImageData(data: Uint8ClampedArray, width: number, height: number): ImageData {
+  return { data, width, height, colorSpace: 'srgb' } as ImageData;
+}
+
+// Crop the largest centered region matching the target aspect ratio (width / height)
+export function cropToAspectRatio(image: ImageData, aspectRatio: number): ImageData {
+  let width = image.width;
+  let height = Math.round(width / aspectRatio);
+
+  if (height > image.height) {
+    height = image.height;
+    width = Math.round(height * aspectRatio);
+  }
+
+  if (width === image.width && height === image.height) {
+    return image;
+  }
+
+  const left = Math.floor((image.width - width) / 2);
+  const top = Math.floor((image.height - height) / 2);
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let row = 0; row < height; row++) {
+    const start = ((top + row) * image.width + left) * 4;
+    data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+
+  return createImageData(data, width, height);
+}
+
+// Fit the target box inside the source without upscaling
+export function getOutputDimensions(
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+): { width: number; height: number } {
+  const scale = Math.min(1, targetWidth / sourceWidth, targetHeight / sourceHeight);
+  return {
+    width: Math.max(1, Math.round(sourceWidth * scale)),
+    height: Math.max(1, Math.round(sourceHeight * scale)),
+  };
+}
@@ -0,0 +1,212 @@
+import type { ImageProbe } from '../types';
+
+// Reads the declared dimensions and frame count from image headers without
+// decoding any pixel data, so oversized images are rejected before a decoder
+// allocates memory for them.
+
+export interface ImageLimits {
+  maxPixels: number;
+  // Longest side divided by shortest side
+  maxAspectRatio: number;
+  maxFrames: number;
+}
+
+interface ImageLimitsEnv {
+  MAX_IMAGE_PIXELS?: string;
+  MAX_IMAGE_ASPECT_RATIO?: string;
+  MAX_IMAGE_FRAMES?: string;
+}
+
+// 4096x4096 decodes to 64 MB of RGBA, half of a Worker's memory
+const DEFAULT_MAX_PIXELS = 4096 * 4096;
+const DEFAULT_MAX_ASPECT_RATIO = 20;
+const DEFAULT_MAX_FRAMES = 500;
+
+export function getImageLimits(env?: ImageLimitsEnv): ImageLimits {
+  const positive = (value: string | undefined, fallback: number) => {
+    const parsed = parseFloat(value || '');
+    return parsed > 0 ? parsed : fallback;
+  };
+
+  return {
+    maxPixels: positive(env?.MAX_IMAGE_PIXELS, DEFAULT_MAX_PIXELS),
+    maxAspectRatio: positive(env?.MAX_IMAGE_ASPECT_RATIO, DEFAULT_MAX_ASPECT_RATIO),
+    maxFrames: positive(env?.MAX_IMAGE_FRAMES, DEFAULT_MAX_FRAMES),
+  };
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function probePng(bytes: Uint8Array, view: DataView): ImageProbe | null {
+  if (bytes.length < 24 || ascii(bytes, 12, 4) !== 'IHDR') return null;
+
+  const width = view.getUint32(16);
+  const height = view.getUint32(20);
+  let frames = 1;
+
+  // An acTL chunk before the image data marks an animated PNG
+  for (let offset = 8; offset + 12 <= bytes.length; ) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === 'acTL') {
+      frames = view.getUint32(offset + 8);
+    }
+    if (type === 'IDAT' || type === 'IEND') break;
+    offset += 12 + length;
+  }
+
+  return { format: 'png', width, height, frames };
+}
+
+function probeGif(bytes: Uint8Array, view: DataView): ImageProbe | null {
+  if (bytes.length < 13) return null;
+
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const colorTableSize = (flags: number) => (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0);
+
+  // Skips a chain of data sub-blocks, each prefixed with its length
+  const skipSubBlocks = (offset: number) => {
+    while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+    return offset + 1;
+  };
+
+  let frames = 0;
+  let largestFrame: ImageProbe['largestFrame'];
+  let offset = 13 + colorTableSize(bytes[10]);
+  while (offset < bytes.length) {
+    const block = bytes[offset];
+    if (block === 0x2c) {
+      // Image descriptor, optional local color table, LZW code size, image data
+      frames++;
+      const frameWidth = view.getUint16(offset + 5, true);
+      const frameHeight = view.getUint16(offset + 7, true);
+      const largest = largestFrame || { width, height };
+      if (frameWidth * frameHeight > largest.width * largest.height) {
+        largestFrame = { width: frameWidth, height: frameHeight };
+      }
+      offset = skipSubBlocks(offset + 10 + colorTableSize(bytes[offset + 9] ?? 0) + 1);
+    } else if (block === 0x21) {
+      offset = skipSubBlocks(offset + 2);
+    } else {
+      break; // trailer or garbage
+    }
+  }
+
+  const probe: ImageProbe = { format: 'gif', width, height, frames: Math.max(frames, 1) };
+  if (largestFrame) probe.largestFrame = largestFrame;
+  return probe;
+}
+
+function probeWebp(bytes: Uint8Array, view: DataView): ImageProbe | null {
+  let probe: ImageProbe | null = null;
+  let animationFrames = 0;
+
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const type = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const data = offset + 8;
+
+    if (type === 'VP8X' && data + 10 <= bytes.length) {
+      // Extended format: canvas size for still and animated images
+      const width = (view.getUint32(data + 4, true) & 0xffffff) + 1;
+      const height = (view.getUint32(data + 6, true) >>> 8) + 1;
+      probe = { format: 'webp', width, height, frames: 1 };
+    } else if (type === 'ANMF') {
+      animationFrames++;
+    } else if (!probe && type === 'VP8 ' && data + 10 <= bytes.length) {
+      // Lossy: a 3 byte frame tag and start code precede the 14-bit dimensions
+      const width = view.getUint16(data + 6, true) & 0x3fff;
+      const height = view.getUint16(data + 8, true) & 0x3fff;
+      return { format: 'webp', width, height, frames: 1 };
+    } else if (!probe && type === 'VP8L' && data + 5 <= bytes.length) {
+      // Lossless: signature byte, then 14 bits each of width - 1 and height - 1
+      const bits = view.getUint32(data + 1, true);
+      return {
+        format: 'webp',
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >>> 14) & 0x3fff) + 1,
+        frames: 1,
+      };
+    }
+
+    offset = data + size + (size % 2);
+  }
+
+  if (probe && animationFrames > 0) probe.frames = animationFrames;
+  return probe;
+}
+
+function probeJpeg(bytes: Uint8Array, view: DataView): ImageProbe | null {
+  let offset = 2;
+  while (offset + 9 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    // Start of frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        format: 'jpeg',
+        width: view.getUint16(offset + 7),
+        height: view.getUint16(offset + 5),
+        frames: 1,
+      };
+    }
+    // Image data starts without a frame header
+    if (marker === 0xda) return null;
+
+    const standalone = marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8);
+    offset += standalone ? 2 : 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+// Null when the format isn't recognised or the headers are truncated
+export function probeImage(buffer: ArrayBuffer): ImageProbe | null {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  try {
+    if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return probePng(bytes, view);
+    if (ascii(bytes, 0, 4) === 'GIF8') return probeGif(bytes, view);
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+      return probeWebp(bytes, view);
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return probeJpeg(bytes, view);
+  } catch (error) {
+    // DataView reads past the end of a truncated file
+    if (error instanceof RangeError) return null;
+    throw error;
+  }
+  return null;
+}
+
+// Why the image is too big to decode safely, or null if it's within limits
+export function getLimitViolation(probe: ImageProbe, limits: ImageLimits): string | null {
+  const { width, height, frames } = probe;
+
+  if (width === 0 || height === 0) {
+    return `Image declares empty dimensions ${width}x${height}`;
+  }
+  if (width * height > limits.maxPixels) {
+    return `Image is ${width}x${height}, over the ${limits.maxPixels} pixel limit`;
+  }
+  if (Math.max(width / height, height / width) > limits.maxAspectRatio) {
+    return `Image is ${width}x${height}, over the ${limits.maxAspectRatio}:1 aspect ratio limit`;
+  }
+  if (frames > limits.maxFrames) {
+    return `Image has ${frames} frames, over the ${limits.maxFrames} frame limit`;
+  }
+  // A small canvas can hide a huge frame
+  const frame = probe.largestFrame;
+  if (frame && frame.width * frame.height > limits.maxPixels) {
+    return `Image has a ${frame.width}x${frame.height} frame, over the ${limits.maxPixels} pixel limit`;
+  }
+  return null;
+}
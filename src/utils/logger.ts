@@ -0,0 +1,107 @@
+// JSON line logger. Every line carries the request ID, pubkey, cache outcome,
+// upstream host and time since the request started, so one request's lines
+// can be pulled out of Workers Logs and read on their own.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Fields repeated on every line, null until they are known
+export interface LogContext {
+  requestId: string | null;
+  pubkey: string | null;
+  cache: string | null;
+  upstreamHost: string | null;
+}
+
+interface LoggerEnv {
+  LOG_LEVEL?: string;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const DEFAULT_LEVEL: LogLevel = 'info';
+
+// Client-supplied IDs are kept so a request can be traced across services
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export function getLogLevel(env?: LoggerEnv): LogLevel {
+  const level = env?.LOG_LEVEL?.toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel) : DEFAULT_LEVEL;
+}
+
+export function getRequestId(request: Request): string {
+  const incoming = request.headers.get('X-Request-Id');
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+// Error objects serialise to `{}`, so keep their name and message
+export function errorFields(error: unknown): Record<string, unknown> {
+  return error instanceof Error
+    ? { error: error.message, errorName: error.name }
+    : { error: String(error) };
+}
+
+export class Logger {
+  constructor(
+    private level: LogLevel,
+    // Updated by set(), so later lines pick up fields learned along the way
+    private context: LogContext,
+    private startedAt: number = Date.now(),
+  ) {}
+
+  get requestId(): string | null {
+    return this.context.requestId;
+  }
+
+  // Records a field for every later line of this request
+  set(fields: Partial<LogContext>): void {
+    Object.assign(this.context, fields);
+  }
+
+  // A logger for one item of a request, e.g. one pubkey of a batch, that
+  // doesn't change the request's own context
+  child(fields: Partial<LogContext>): Logger {
+    return new Logger(this.level, { ...this.context, ...fields }, this.startedAt);
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: Record<string, unknown>): void {
+    if (LEVELS[level] < LEVELS[this.level]) return;
+
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...this.context,
+      elapsedMs: Date.now() - this.startedAt,
+      ...fields,
+    });
+
+    if (level === 'error') console.error(line);
+    else if (level === 'warn') console.warn(line);
+    // eslint-disable-next-line no-console -- the one place info lines are written
+    else console.log(line);
+  }
+}
+
+export function createLogger(env?: LoggerEnv, requestId: string | null = null): Logger {
+  return new Logger(getLogLevel(env), {
+    requestId,
+    pubkey: null,
+    cache: null,
+    upstreamHost: null,
+  });
+}
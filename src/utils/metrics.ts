@@ -0,0 +1,228 @@
+import { createLogger, errorFields, Logger } from './logger';
+
+// Counters and histograms recorded by this isolate and flushed to the
+// METRICS Durable Object every few seconds, and at the end of cron and queue
+// invocations. Counts still pending when an isolate is evicted are lost.
+// Without the binding they are totalled in the isolate instead, so numbers
+// only cover that isolate.
+
+export interface HistogramState {
+  // Cumulative counts per upper bound in LATENCY_BUCKETS, plus +Inf last
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+// Series are keyed by name and labels in exposition form, e.g. `name{kind="avatar"}`
+export interface MetricsSnapshot {
+  counters: Record<string, number>;
+  histograms: Record<string, HistogramState>;
+}
+
+interface MetricsEnv {
+  METRICS?: DurableObjectNamespace;
+  LOG_LEVEL?: string;
+}
+
+// Seconds
+export const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const METRIC_HELP: Record<string, [type: string, help: string]> = {
+  yestr_cache_requests_total: ['counter', 'Image requests by cache status'],
+  yestr_fallback_avatars_total: ['counter', 'Generated avatars served instead of a profile image'],
+  yestr_bytes_served_total: ['counter', 'Image bytes sent to clients'],
+  yestr_upstream_failures_total: ['counter', 'Failed image downloads by status class'],
+  yestr_fetch_fallbacks_total: ['counter', 'Image downloads retried with a later fetch strategy'],
+  yestr_image_rejections_total: ['counter', 'Source images refused as over the limits or invalid'],
+  yestr_nostr_events_rejected_total: ['counter', 'Relay events dropped by verification, by reason'],
+  yestr_upstream_latency_seconds: ['histogram', 'Time taken to download source images'],
+};
+
+// Request handlers flush once either is reached rather than on every request
+const FLUSH_INTERVAL_MS = 10000;
+const FLUSH_AFTER_UPDATES = 100;
+
+let pending: MetricsSnapshot = emptySnapshot();
+let pendingUpdates = 0;
+let lastFlush = 0;
+// Totals kept by the isolate when METRICS isn't bound
+const local: MetricsSnapshot = emptySnapshot();
+
+export function emptySnapshot(): MetricsSnapshot {
+  return { counters: {}, histograms: {} };
+}
+
+function seriesKey(name: string, labels?: Record<string, string>): string {
+  const pairs = Object.entries(labels || {}).map(([key, value]) => `${key}="${value}"`);
+  return pairs.length > 0 ? `${name}{${pairs.join(',')}}` : name;
+}
+
+export function incrementCounter(
+  name: string,
+  labels?: Record<string, string>,
+  value: number = 1,
+): void {
+  const key = seriesKey(name, labels);
+  pending.counters[key] = (pending.counters[key] || 0) + value;
+  pendingUpdates++;
+}
+
+export function observeHistogram(
+  name: string,
+  seconds: number,
+  labels?: Record<string, string>,
+): void {
+  const key = seriesKey(name, labels);
+  const histogram = (pending.histograms[key] ||= {
+    buckets: new Array(LATENCY_BUCKETS.length + 1).fill(0),
+    sum: 0,
+    count: 0,
+  });
+
+  LATENCY_BUCKETS.forEach((bound, i) => {
+    if (seconds <= bound) histogram.buckets[i]++;
+  });
+  histogram.buckets[LATENCY_BUCKETS.length]++;
+  histogram.sum += seconds;
+  histogram.count++;
+  pendingUpdates++;
+}
+
+// 404 -> `4xx`; network errors and timeouts without a response are `network`
+export function getStatusClass(statusCode?: number): string {
+  return statusCode && statusCode >= 100 && statusCode < 600
+    ? `${Math.floor(statusCode / 100)}xx`
+    : 'network';
+}
+
+// Adds delta into target. Shared by the local totals and the Durable Object.
+export function mergeMetrics(target: MetricsSnapshot, delta: MetricsSnapshot): MetricsSnapshot {
+  for (const [key, value] of Object.entries(delta.counters)) {
+    target.counters[key] = (target.counters[key] || 0) + value;
+  }
+
+  for (const [key, histogram] of Object.entries(delta.histograms)) {
+    const existing = target.histograms[key];
+    if (!existing) {
+      target.histograms[key] = { ...histogram, buckets: [...histogram.buckets] };
+      continue;
+    }
+    histogram.buckets.forEach((count, i) => (existing.buckets[i] += count));
+    existing.sum += histogram.sum;
+    existing.count += histogram.count;
+  }
+
+  return target;
+}
+
+// Sends everything recorded since the last flush to the aggregate
+export async function flushMetrics(
+  env: MetricsEnv,
+  logger: Logger = createLogger(env),
+): Promise<void> {
+  lastFlush = Date.now();
+  const delta = pending;
+  if (Object.keys(delta.counters).length === 0 && Object.keys(delta.histograms).length === 0) {
+    return;
+  }
+  pending = emptySnapshot();
+  pendingUpdates = 0;
+
+  if (!env.METRICS) {
+    mergeMetrics(local, delta);
+    return;
+  }
+
+  try {
+    const stub = env.METRICS.get(env.METRICS.idFromName('global'));
+    await stub.fetch('https://metrics/record', {
+      method: 'POST',
+      body: JSON.stringify(delta),
+    });
+  } catch (error) {
+    logger.warn('Failed to flush metrics', errorFields(error));
+    mergeMetrics(pending, delta);
+  }
+}
+
+// Flushes if enough has been recorded, or enough time has passed, since the last flush
+export async function flushMetricsIfDue(
+  env: MetricsEnv,
+  logger: Logger = createLogger(env),
+): Promise<void> {
+  if (pendingUpdates < FLUSH_AFTER_UPDATES && Date.now() - lastFlush < FLUSH_INTERVAL_MS) {
+    return;
+  }
+  await flushMetrics(env, logger);
+}
+
+export async function getMetrics(env: MetricsEnv): Promise<MetricsSnapshot> {
+  await flushMetrics(env);
+
+  if (!env.METRICS) {
+    return mergeMetrics(emptySnapshot(), local);
+  }
+
+  const stub = env.METRICS.get(env.METRICS.idFromName('global'));
+  const response = await stub.fetch('https://metrics/snapshot');
+  return (await response.json()) as MetricsSnapshot;
+}
+
+// Share of image requests answered from R2, counting stale serves as hits
+export function getCacheHitRate(snapshot: MetricsSnapshot): number {
+  let hits = 0;
+  let total = 0;
+  for (const [key, value] of Object.entries(snapshot.counters)) {
+    if (!key.startsWith('yestr_cache_requests_total{')) continue;
+    total += value;
+    if (!key.includes('status="miss"')) hits += value;
+  }
+  return total > 0 ? hits / total : 0;
+}
+
+function withLabel(key: string, label: string): string {
+  const brace = key.indexOf('{');
+  return brace === -1 ? `${key}{${label}}` : `${key.slice(0, -1)},${label}}`;
+}
+
+function metricName(key: string): string {
+  const brace = key.indexOf('{');
+  return brace === -1 ? key : key.slice(0, brace);
+}
+
+// Prometheus text exposition format, version 0.0.4
+export function formatPrometheus(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+  const described = new Set<string>();
+
+  const describe = (name: string) => {
+    if (described.has(name)) return;
+    described.add(name);
+    const [type, help] = METRIC_HELP[name] || ['untyped', name];
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+
+  for (const key of Object.keys(snapshot.counters).sort()) {
+    describe(metricName(key));
+    lines.push(`${key} ${snapshot.counters[key]}`);
+  }
+
+  for (const key of Object.keys(snapshot.histograms).sort()) {
+    const name = metricName(key);
+    const histogram = snapshot.histograms[key];
+    const labels = key.slice(name.length);
+    describe(name);
+
+    [...LATENCY_BUCKETS.map(String), '+Inf'].forEach((bound, i) => {
+      lines.push(
+        `${withLabel(`${name}_bucket${labels}`, `le="${bound}"`)} ${histogram.buckets[i]}`,
+      );
+    });
+    lines.push(
+      `${name}_sum${labels} ${histogram.sum}`,
+      `${name}_count${labels} ${histogram.count}`,
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -1,31 +1,83 @@
-interface RateLimitOptions {
+import { sha256Hex } from './hash';
+import { createLogger, errorFields, Logger } from './logger';
+
+export interface RateLimitOptions {
   windowMs: number;
   maxRequests: number;
+  // 'sliding-window' counts requests in the last windowMs; 'token-bucket' allows
+  // bursts of up to maxRequests and refills at maxRequests per windowMs
+  mode?: 'sliding-window' | 'token-bucket';
 }
 
-export class RateLimiter {
-  private requests: Map<string, number[]> = new Map();
+export interface RateLimitState {
+  timestamps?: number[];
+  tokens?: number;
+  updatedAt?: number;
+}
 
-  constructor(private options: RateLimitOptions) {}
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
 
-  async isAllowed(identifier: string): Promise<boolean> {
-    const now = Date.now();
-    const windowStart = now - this.options.windowMs;
+interface RateLimitEnv {
+  RATE_LIMITER?: DurableObjectNamespace;
+  RATE_LIMIT_API_KEYS?: string;
+  LOG_LEVEL?: string;
+}
 
-    // Get existing requests for this identifier
-    const timestamps = this.requests.get(identifier) || [];
+// Applies one request to the limiter state. Shared by the in-memory limiter
+// and the Durable Object so both enforce identical semantics.
+export function consumeRateLimit(
+  state: RateLimitState,
+  options: RateLimitOptions,
+  now: number = Date.now(),
+): { state: RateLimitState; decision: RateLimitDecision } {
+  const limit = options.maxRequests;
+
+  if (options.mode === 'token-bucket') {
+    const refillRate = limit / options.windowMs; // tokens per ms
+    const elapsed = Math.max(0, now - (state.updatedAt ?? now));
+    let tokens = Math.min(limit, (state.tokens ?? limit) + elapsed * refillRate);
+
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+
+    // Time until the next whole token is available
+    const resetAt = now + Math.ceil(Math.max(0, 1 - tokens) / refillRate);
+
+    return {
+      state: { tokens, updatedAt: now },
+      decision: { allowed, limit, remaining: Math.floor(tokens), resetAt },
+    };
+  }
 
-    // Filter out expired timestamps
-    const validTimestamps = timestamps.filter((ts) => ts > windowStart);
+  const windowStart = now - options.windowMs;
+  const timestamps = (state.timestamps || []).filter((ts) => ts > windowStart);
 
-    // Check if limit is exceeded
-    if (validTimestamps.length >= this.options.maxRequests) {
-      return false;
-    }
+  const allowed = timestamps.length < limit;
+  if (allowed) timestamps.push(now);
 
-    // Add current request
-    validTimestamps.push(now);
-    this.requests.set(identifier, validTimestamps);
+  const resetAt = (timestamps.length > 0 ? timestamps[0] : now) + options.windowMs;
+
+  return {
+    state: { timestamps },
+    decision: { allowed, limit, remaining: Math.max(0, limit - timestamps.length), resetAt },
+  };
+}
+
+export class RateLimiter {
+  private states: Map<string, RateLimitState> = new Map();
+  private lastDecisions: Map<string, RateLimitDecision> = new Map();
+
+  constructor(private options: RateLimitOptions) {}
+
+  async consume(identifier: string): Promise<RateLimitDecision> {
+    const { state, decision } = consumeRateLimit(this.states.get(identifier) || {}, this.options);
+    this.states.set(identifier, state);
+    this.lastDecisions.set(identifier, decision);
 
     // Clean up old entries periodically
     if (Math.random() < 0.01) {
@@ -33,66 +85,131 @@ export class RateLimiter {
       this.cleanup();
     }
 
-    return true;
+    return decision;
   }
 
   private cleanup(): void {
     const now = Date.now();
-    const windowStart = now - this.options.windowMs;
-
-    for (const [identifier, timestamps] of this.requests.entries()) {
-      const validTimestamps = timestamps.filter((ts) => ts > windowStart);
-      if (validTimestamps.length === 0) {
-        this.requests.delete(identifier);
-      } else {
-        this.requests.set(identifier, validTimestamps);
+
+    for (const [identifier, decision] of this.lastDecisions.entries()) {
+      if (decision.resetAt < now - this.options.windowMs) {
+        this.states.delete(identifier);
+        this.lastDecisions.delete(identifier);
       }
     }
   }
+}
 
-  getRemainingRequests(identifier: string): number {
-    const now = Date.now();
-    const windowStart = now - this.options.windowMs;
-    const timestamps = this.requests.get(identifier) || [];
-    const validTimestamps = timestamps.filter((ts) => ts > windowStart);
-    return Math.max(0, this.options.maxRequests - validTimestamps.length);
+// In-memory fallback used when the RATE_LIMITER Durable Object isn't bound
+// or can't be reached. Limits are then only enforced per isolate.
+const rateLimiters = new Map<string, RateLimiter>();
+
+export function getRateLimiter(key: string, options: RateLimitOptions): RateLimiter {
+  const cacheKey = `${key}:${options.mode || 'sliding-window'}:${options.maxRequests}:${options.windowMs}`;
+  if (!rateLimiters.has(cacheKey)) {
+    rateLimiters.set(cacheKey, new RateLimiter(options));
   }
+  return rateLimiters.get(cacheKey)!;
+}
 
-  getResetTime(identifier: string): number {
-    const timestamps = this.requests.get(identifier) || [];
-    if (timestamps.length === 0) return 0;
+// Decisions for allowed requests, so the router can add X-RateLimit-* headers to its response
+const decisions = new WeakMap<Request, RateLimitDecision>();
+
+// RATE_LIMIT_API_KEYS is a JSON object mapping API keys to their own limits
+function getApiKeyOptions(
+  env: RateLimitEnv | undefined,
+  apiKey: string,
+  logger: Logger,
+): RateLimitOptions | null {
+  if (!env?.RATE_LIMIT_API_KEYS) return null;
+
+  try {
+    const keys = JSON.parse(env.RATE_LIMIT_API_KEYS) as Record<string, Partial<RateLimitOptions>>;
+    const options = keys[apiKey];
+    if (!options || typeof options.maxRequests !== 'number') return null;
+
+    return {
+      windowMs: options.windowMs || 60000,
+      maxRequests: options.maxRequests,
+      mode: options.mode,
+    };
+  } catch (error) {
+    logger.error('Invalid RATE_LIMIT_API_KEYS configuration', errorFields(error));
+    return null;
+  }
+}
 
-    const oldestTimestamp = Math.min(...timestamps);
-    return oldestTimestamp + this.options.windowMs;
+async function consumeDistributed(
+  namespace: DurableObjectNamespace,
+  identifier: string,
+  options: RateLimitOptions,
+): Promise<RateLimitDecision> {
+  const stub = namespace.get(namespace.idFromName(identifier));
+  const response = await stub.fetch('https://rate-limiter/consume', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Rate limiter returned ${response.status}`);
   }
+
+  return (await response.json()) as RateLimitDecision;
 }
 
-// Simple in-memory rate limiter for Workers
-// In production, consider using Durable Objects for distributed rate limiting
-const rateLimiters = new Map<string, RateLimiter>();
+export function getRateLimitHeaders(decision: RateLimitDecision): Headers {
+  const headers = new Headers();
+  headers.set('X-RateLimit-Limit', decision.limit.toString());
+  headers.set('X-RateLimit-Remaining', decision.remaining.toString());
+  headers.set('X-RateLimit-Reset', new Date(decision.resetAt).toISOString());
+  return headers;
+}
 
-export function getRateLimiter(key: string, options: RateLimitOptions): RateLimiter {
-  if (!rateLimiters.has(key)) {
-    rateLimiters.set(key, new RateLimiter(options));
-  }
-  return rateLimiters.get(key)!;
+// Returns the X-RateLimit-* headers for a request that passed checkRateLimit
+export function getAllowedRateLimitHeaders(request: Request): Headers | null {
+  const decision = decisions.get(request);
+  return decision ? getRateLimitHeaders(decision) : null;
 }
 
 export async function checkRateLimit(
   request: Request,
   limiterKey: string = 'global',
   options: RateLimitOptions = { windowMs: 60000, maxRequests: 60 },
+  env?: RateLimitEnv,
+  logger: Logger = createLogger(env),
 ): Promise<Response | null> {
   // Get client identifier (IP or CF-Connecting-IP)
   const clientIp =
     request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For') || 'unknown';
 
-  const rateLimiter = getRateLimiter(limiterKey, options);
-  const identifier = `${limiterKey}:${clientIp}`;
+  // Known API keys get their own limits and are tracked per key instead of per IP
+  let identifier = `${limiterKey}:${clientIp}`;
+  const apiKey = request.headers.get('X-API-Key');
+  const apiKeyOptions = apiKey ? getApiKeyOptions(env, apiKey, logger) : null;
+  if (apiKey && apiKeyOptions) {
+    options = apiKeyOptions;
+    identifier = `${limiterKey}:key:${(await sha256Hex(apiKey)).slice(0, 32)}`;
+  }
+
+  let decision: RateLimitDecision;
+  if (env?.RATE_LIMITER) {
+    try {
+      decision = await consumeDistributed(env.RATE_LIMITER, identifier, options);
+    } catch (error) {
+      // Fail open to the local limiter rather than rejecting traffic
+      logger.warn('Distributed rate limiter unavailable', errorFields(error));
+      decision = await getRateLimiter(limiterKey, options).consume(identifier);
+    }
+  } else {
+    decision = await getRateLimiter(limiterKey, options).consume(identifier);
+  }
 
-  if (!(await rateLimiter.isAllowed(identifier))) {
-    const resetTime = rateLimiter.getResetTime(identifier);
-    const retryAfter = Math.ceil((resetTime - Date.now()) / 1000);
+  if (!decision.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((decision.resetAt - Date.now()) / 1000));
+    const headers = getRateLimitHeaders(decision);
+    headers.set('Content-Type', 'application/json');
+    headers.set('Retry-After', retryAfter.toString());
 
     return new Response(
       JSON.stringify({
@@ -101,17 +218,12 @@ export async function checkRateLimit(
       }),
       {
         status: 429,
-        headers: {
-          'Content-Type': 'application/json',
-          'Retry-After': retryAfter.toString(),
-          'X-RateLimit-Limit': options.maxRequests.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': new Date(resetTime).toISOString(),
-        },
+        headers,
       },
     );
   }
 
   // Request is allowed, return null to continue
+  decisions.set(request, decision);
   return null;
 }
@@ -0,0 +1,206 @@
+// Outbound URL policy for image fetches, NIP-05 lookups and relay hints.
+// These URLs come from anyone's events, so every URL and redirect hop is
+// checked before it is fetched.
+// Hostnames can't be resolved from a Worker before fetching, so names that
+// resolve to private addresses are left to the platform's own egress rules.
+
+export interface UrlPolicy {
+  allowedPorts: number[];
+  // Hostnames blocked along with their subdomains
+  blockedHosts: string[];
+  maxRedirects: number;
+  // Only for local development against images on the same machine
+  allowPrivateAddresses: boolean;
+}
+
+interface UrlPolicyEnv {
+  FETCH_ALLOWED_PORTS?: string;
+  FETCH_BLOCKED_HOSTS?: string;
+  FETCH_MAX_REDIRECTS?: string;
+  FETCH_ALLOW_PRIVATE_ADDRESSES?: string;
+}
+
+const DEFAULT_PORTS = [80, 443];
+const HTTP_PROTOCOLS = ['http:', 'https:'];
+const DEFAULT_MAX_REDIRECTS = 3;
+
+// Names that only resolve inside a network
+const INTERNAL_SUFFIXES = ['localhost', 'local', 'internal', 'intranet', 'lan', 'home.arpa'];
+
+// [network, prefix length] of IPv4 ranges that aren't publicly routable
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+];
+
+export function getUrlPolicy(env?: UrlPolicyEnv): UrlPolicy {
+  const list = (value?: string) =>
+    (value || '')
+      .split(',')
+      .map((item) => item.trim().toLowerCase())
+      .filter(Boolean);
+
+  const ports = list(env?.FETCH_ALLOWED_PORTS)
+    .map((port) => parseInt(port))
+    .filter((port) => port > 0 && port < 65536);
+  const maxRedirects = parseInt(env?.FETCH_MAX_REDIRECTS || '');
+
+  return {
+    allowedPorts: ports.length > 0 ? ports : DEFAULT_PORTS,
+    blockedHosts: list(env?.FETCH_BLOCKED_HOSTS),
+    maxRedirects: maxRedirects >= 0 ? maxRedirects : DEFAULT_MAX_REDIRECTS,
+    allowPrivateAddresses: env?.FETCH_ALLOW_PRIVATE_ADDRESSES === 'true',
+  };
+}
+
+// Parses IPv4 the way inet_aton does, so `2130706433`, `0x7f.1` and
+// `0177.0.0.1` are all read as 127.0.0.1. Returns null for non-IPv4 hosts.
+export function parseIPv4(host: string): number | null {
+  const parts = host.split('.');
+  if (parts.length > 4) return null;
+  if (parts.length > 1 && parts[parts.length - 1] === '') parts.pop();
+
+  const values: number[] = [];
+  for (const part of parts) {
+    let value: number;
+    if (/^0x[0-9a-f]*$/i.test(part)) value = parseInt(part.slice(2) || '0', 16);
+    else if (/^0[0-7]+$/.test(part)) value = parseInt(part, 8);
+    else if (/^(0|[1-9]\d*)$/.test(part)) value = parseInt(part, 10);
+    else return null;
+    values.push(value);
+  }
+
+  // The last part fills all remaining bytes
+  const last = values.pop()!;
+  if (values.some((value) => value > 255) || last >= 256 ** (4 - values.length)) return null;
+  return values.reduce((address, value, i) => address + value * 256 ** (3 - i), 0) + last;
+}
+
+function isBlockedIPv4(address: number): boolean {
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = parseIPv4(network)!;
+    return address >= start && address < start + size;
+  });
+}
+
+// Expands an IPv6 literal to its eight 16-bit groups
+function parseIPv6(host: string): number[] | null {
+  let address = host.toLowerCase();
+
+  // Trailing dotted IPv4, as in ::ffff:127.0.0.1
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIPv4(dotted[2]);
+    if (v4 === null) return null;
+    address = `${dotted[1]}${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string) => (part ? part.split(':') : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 2 && missing < 1) || (halves.length === 1 && missing !== 0)) return null;
+
+  const groups = [...head, ...new Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isBlockedIPv6(groups: number[]): boolean {
+  const embeddedIPv4 = groups[6] * 65536 + groups[7];
+  const leadingZeros = groups.slice(0, 5).every((group) => group === 0);
+
+  // ::, ::1 and IPv4-compatible/-mapped addresses (::a.b.c.d, ::ffff:a.b.c.d)
+  if (leadingZeros && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return groups[5] === 0 && groups[6] === 0 ? true : isBlockedIPv4(embeddedIPv4);
+  }
+  // NAT64 (64:ff9b::/96) carries an IPv4 address in the last 32 bits
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) {
+    return isBlockedIPv4(embeddedIPv4);
+  }
+  // 6to4 (2002::/16) carries one in the second and third groups
+  if (groups[0] === 0x2002) {
+    return isBlockedIPv4(groups[1] * 65536 + groups[2]);
+  }
+
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xffc0) === 0xfec0 || // site-local
+    (groups[0] & 0xff00) === 0xff00 || // multicast
+    (groups[0] === 0x2001 && groups[1] === 0x0db8) // documentation
+  );
+}
+
+function matchesHost(hostname: string, suffix: string): boolean {
+  return hostname === suffix || hostname.endsWith(`.${suffix}`);
+}
+
+// Why the policy refuses to fetch this URL, or null if it may be fetched.
+// Relay URLs pass ['ws:', 'wss:'] as the protocols.
+export function getUrlRejection(
+  url: string,
+  policy: UrlPolicy,
+  protocols: string[] = HTTP_PROTOCOLS,
+): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'invalid URL';
+  }
+
+  if (!protocols.includes(parsed.protocol)) {
+    return `protocol ${parsed.protocol} not allowed`;
+  }
+  if (parsed.username || parsed.password) {
+    return 'credentials in URL not allowed';
+  }
+
+  const secure = parsed.protocol === 'https:' || parsed.protocol === 'wss:';
+  const port = parsed.port ? parseInt(parsed.port) : secure ? 443 : 80;
+  if (!policy.allowedPorts.includes(port)) {
+    return `port ${port} not allowed`;
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  if (policy.blockedHosts.some((host) => matchesHost(hostname, host))) {
+    return `host ${hostname} is blocked`;
+  }
+  if (policy.allowPrivateAddresses) return null;
+
+  if (hostname.startsWith('[')) {
+    const groups = parseIPv6(hostname.slice(1, -1));
+    return !groups || isBlockedIPv6(groups) ? 'private or reserved address' : null;
+  }
+
+  const ipv4 = parseIPv4(hostname);
+  if (ipv4 !== null) {
+    return isBlockedIPv4(ipv4) ? 'private or reserved address' : null;
+  }
+
+  if (
+    !hostname.includes('.') ||
+    INTERNAL_SUFFIXES.some((suffix) => matchesHost(hostname, suffix))
+  ) {
+    return `internal hostname ${hostname}`;
+  }
+
+  return null;
+}
@@ -1,20 +1,78 @@
-import { AvatarRequest } from '../types';
+import { nip05, nip19 } from 'nostr-tools';
+import {
+  AvatarRequest,
+  BannerRequest,
+  BatchAvatarRequest,
+  ImageFormat,
+  ValidationError,
+} from '../types';
 
 const HEX_REGEX = /^[0-9a-fA-F]{64}$/;
+const MAX_RELAY_HINTS = 3;
 const VALID_SIZES = [200, 400, 800];
+const VALID_BANNER_SIZES = ['600x200', '1500x500'];
 const VALID_FORMATS = ['webp', 'jpeg', 'png'];
+const MAX_BATCH_SIZE = 300;
 
 export function validatePubkey(pubkey: string): boolean {
   return HEX_REGEX.test(pubkey);
 }
 
-export function parseAvatarRequest(request: Request, pubkey: string): AvatarRequest {
+export function isNip05Identifier(identifier: string): boolean {
+  return identifier.includes('@') && nip05.isNip05(identifier);
+}
+
+export function isValidRelayUrl(url: string): boolean {
+  try {
+    return new URL(url).protocol === 'wss:';
+  } catch {
+    return false;
+  }
+}
+
+export function sanitizeRelayHints(relays: unknown[]): string[] {
+  return relays
+    .filter((relay): relay is string => typeof relay === 'string' && isValidRelayUrl(relay))
+    .slice(0, MAX_RELAY_HINTS);
+}
+
+// Decode a hex pubkey, npub or nprofile into a hex pubkey plus any relay hints
+export function decodeIdentifier(identifier: string): { pubkey: string; relays: string[] } | null {
+  if (validatePubkey(identifier)) {
+    return { pubkey: identifier.toLowerCase(), relays: [] };
+  }
+
+  if (!identifier.startsWith('npub1') && !identifier.startsWith('nprofile1')) {
+    return null;
+  }
+
+  try {
+    const decoded = nip19.decode(identifier);
+    if (decoded.type === 'npub') {
+      return { pubkey: decoded.data, relays: [] };
+    }
+    if (decoded.type === 'nprofile') {
+      return {
+        pubkey: decoded.data.pubkey,
+        relays: sanitizeRelayHints(decoded.data.relays || []),
+      };
+    }
+  } catch {
+    // Invalid bech32 checksum or payload
+  }
+
+  return null;
+}
+
+export function parseAvatarRequest(request: Request, identifier: string): AvatarRequest {
   const url = new URL(request.url);
 
   // Validate pubkey
-  if (!validatePubkey(pubkey)) {
-    throw new Error('Invalid pubkey format');
+  const decoded = decodeIdentifier(identifier);
+  if (!decoded) {
+    throw new ValidationError('Invalid pubkey format');
   }
+  const { pubkey, relays } = decoded;
 
   // Parse size parameter
   const sizeParam = url.searchParams.get('size');
@@ -27,13 +85,75 @@ export function parseAvatarRequest(request: Request, pubkey: string): AvatarRequ
   }
 
   // Parse format parameter
+  const format = parseFormat(url);
+
+  // Serve a generated avatar instead of an error when no usable picture exists
+  const fallback = url.searchParams.get('fallback') === 'true';
+
+  // Animated sources render as a still of their first frame unless asked otherwise
+  const animated = url.searchParams.get('animated') === 'true';
+
+  return { pubkey, size, format, fallback, animated, relays };
+}
+
+export function parseBannerRequest(request: Request, identifier: string): BannerRequest {
+  const url = new URL(request.url);
+
+  const decoded = decodeIdentifier(identifier);
+  if (!decoded) {
+    throw new ValidationError('Invalid pubkey format');
+  }
+
+  // Banners use wide WIDTHxHEIGHT sizes instead of the square avatar sizes
+  const sizeParam = url.searchParams.get('size');
+  const size = sizeParam && VALID_BANNER_SIZES.includes(sizeParam) ? sizeParam : '600x200';
+  const [width, height] = size.split('x').map((value) => parseInt(value, 10));
+
+  return {
+    pubkey: decoded.pubkey,
+    width,
+    height,
+    format: parseFormat(url),
+    relays: decoded.relays,
+  };
+}
+
+export function parseBatchAvatarRequest(body: unknown): BatchAvatarRequest {
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+
+  const { pubkeys, size, format } = body as Record<string, unknown>;
+
+  if (!Array.isArray(pubkeys) || pubkeys.length === 0) {
+    throw new ValidationError('pubkeys must be a non-empty array');
+  }
+
+  if (pubkeys.length > MAX_BATCH_SIZE) {
+    throw new ValidationError(`Too many pubkeys: maximum is ${MAX_BATCH_SIZE}`);
+  }
+
+  const invalid = pubkeys.filter((pubkey) => typeof pubkey !== 'string' || !validatePubkey(pubkey));
+  if (invalid.length > 0) {
+    throw new ValidationError(`Invalid pubkey format: ${invalid.slice(0, 5).join(', ')}`);
+  }
+
+  return {
+    pubkeys: [...new Set((pubkeys as string[]).map((pubkey) => pubkey.toLowerCase()))],
+    size: typeof size === 'number' && VALID_SIZES.includes(size) ? size : 400,
+    format:
+      typeof format === 'string' && VALID_FORMATS.includes(format)
+        ? (format as ImageFormat)
+        : undefined,
+  };
+}
+
+function parseFormat(url: URL): ImageFormat | undefined {
   const formatParam = url.searchParams.get('format');
-  let format: 'webp' | 'jpeg' | 'png' | undefined;
   if (formatParam && VALID_FORMATS.includes(formatParam)) {
-    format = formatParam as 'webp' | 'jpeg' | 'png';
+    return formatParam as ImageFormat;
   }
-
-  return { pubkey, size, format };
+  return undefined;
 }
 
 export function isValidImageUrl(url: string): boolean {
@@ -1,6 +1,35 @@
-import { defineConfig } from 'vitest/config';
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { defineConfig, Plugin } from 'vitest/config';
+
+const require = createRequire(import.meta.url);
+
+// Wrangler bundles `.wasm` imports as compiled modules; do the same in tests
+// so the image codecs can run under Node
+function wasmModules(): Plugin {
+  const prefix = '\0wasm:';
+  // Keyed by file name, as ids naming node_modules paths are left to Node
+  const paths = new Map<string, string>();
+  return {
+    name: 'wasm-modules',
+    enforce: 'pre',
+    resolveId(source) {
+      if (source.startsWith(prefix) || !source.endsWith('.wasm')) return null;
+      const path = require.resolve(source);
+      const name = path.split('/').pop()!;
+      paths.set(name, path);
+      return prefix + name;
+    },
+    load(id) {
+      if (!id.startsWith(prefix)) return null;
+      const bytes = readFileSync(paths.get(id.slice(prefix.length))!).toString('base64');
+      return `export default new WebAssembly.Module(Buffer.from('${bytes}', 'base64'));`;
+    },
+  };
+}
 
 export default defineConfig({
+  plugins: [wasmModules()],
   test: {
     globals: true,
     environment: 'node',